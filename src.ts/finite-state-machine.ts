@@ -1,5 +1,20 @@
-import { FsmState } from "./fsm-state";
+import { FsmActionResult, FsmEventHandling, FsmGuard, FsmRaiseFunction, FsmState, FsmTransition, FsmWildcardTransition, OutputFunction, StoredFsmGuard, StoredOutputFunction } from "./fsm-state";
 import { FsmEvent } from "./fsm-event";
+import { FsmActionRegistry } from "./fsm-action-registry";
+import { FsmDefaultTransitionJson, FsmEpsilonTransitionJson, FsmEventDelayJson, FsmJson, FsmTokenRecordV1, FsmTokenSnapshot, FsmTransitionJson, FsmWildcardTransitionJson, FSM_JSON_VERSION, FSM_TOKEN_SNAPSHOT_VERSION } from "./fsm-json";
+import { FsmTokenRecord, MemoryTokenStore, TokenStore } from "./fsm-token-store";
+import { FsmTokenConfiguration } from "./fsm-token-configuration";
+import { FsmTokenHistory, FsmTokenHistoryEntry } from "./fsm-token-history";
+import { FsmPendingTimer, FsmScheduler, SystemScheduler } from "./fsm-scheduler";
+import { FsmTokenIndex } from "./fsm-token-index";
+import { FsmTokenExpiry } from "./fsm-token-expiry";
+import { FsmValidationOptions, FsmValidationReport, FsmValidator } from "./fsm-validation";
+import { FsmEquivalenceOptions, FsmEquivalenceResult, FsmMinimizationResult, FsmMinimizer } from "./fsm-minimization";
+import { FsmDeterminizationResult, FsmDeterminizer } from "./fsm-determinization";
+import { FsmRunResult, FsmSimulator } from "./fsm-simulation";
+import { FsmPathFinder, FsmTestSequence } from "./fsm-path";
+import { FsmAcceptor, FsmComposer, FsmCompositionResult } from "./fsm-composition";
+import { FsmMigrationOptions, FsmMigrationResult, FsmMigrator, FsmTokenMigration } from "./fsm-migration";
 import { EventEmitter } from 'events';
 
 export enum FsmListenerEvent {
@@ -13,6 +28,7 @@ export enum FsmListenerEvent {
     onStateRemoved = 'fsm.state.removed',
     onEventRemoved = 'fsm.event.removed',
     onTransitionRemoved = 'fsm.transition.removed',
+    onDefinitionReplaced = 'fsm.definition.replaced',
 }
 
 export enum TokenListenerEvent {
@@ -20,8 +36,17 @@ export enum TokenListenerEvent {
     onTokenTransitNonDeterministic = 'token.transit.nd',
     onTokenTransitState = 'token.state.changed',
     onTokenTransitSelf = 'token.state.changed.self',
+    onTokenTransitStateSet = 'token.stateset.changed',
+    onTokenEventIgnored = 'token.event.ignored',
+    onTokenMigrated = 'token.migrated',
+    onTokenDropped = 'token.dropped',
+    onTokenExpired = 'token.expired',
     onTokenTransitFinalState = 'token.state.changed.final',
+    onTokenEnterFinalState = 'token.state.entered.final',
+    onTokenFinal = 'token.final',
     onTokenInvalidStateChange = 'token.state.change.invalid',
+    onTokenGuardRejected = 'token.guard.rejected',
+    onTokenTransitVetoed = 'token.transit.vetoed',
     onTokenInvalidOutputResult = 'token.output.result.error',
     onErrorTokenIdNotFound = 'error.notfound.tokenid',
     onErrorStateNotFound = 'error.notfound.state',
@@ -29,28 +54,271 @@ export enum TokenListenerEvent {
     onErrorNdStateTableNotFound = 'error.notfound.statetable.nd',
 }
 
-export type NonDeterministicStateTable = (tokenId: string, currentState: FsmState, onEvent: FsmEvent) => FsmState | null;
+export enum FsmTokenPolicy {
+    reject = 'reject',
+    fallback = 'fallback',
+    drop = 'drop',
+}
+
+export interface FsmStateRemovalOptions<TStateName extends string = string> {
+    tokenPolicy?: FsmTokenPolicy;
+    fallbackState?: FsmState | number | TStateName;
+}
+
+export type NonDeterministicStateTable = (tokenId: string, currentState: FsmState, onEvent: FsmEvent, payload?: unknown) => FsmState | null;
+export type FsmContextFactory<TContext> = (tokenId: string) => TContext;
+
+export enum FsmInterceptorAction {
+    allow = 'allow',
+    veto = 'veto',
+    redirect = 'redirect',
+}
+
+export interface FsmInterception<TStateName extends string = string> {
+    action: FsmInterceptorAction;
+    reason?: string;
+    state?: FsmState | number | TStateName;
+}
+
+// returning nothing allows the transition
+export type FsmInterceptorResult<TStateName extends string = string> = FsmInterception<TStateName> | void;
+export type FsmInterceptor<TStateName extends string = string> = (tokenId: string, currentState: FsmState, onEvent: FsmEvent, nextState: FsmState, fsmRegionName: string) =>
+    FsmInterceptorResult<TStateName> | Promise<FsmInterceptorResult<TStateName>>;
+
+interface FsmTokenTransition {
+    fsmRegionName: string;
+    currentState: FsmState;
+    sourceState: FsmState;
+    targetState: FsmState;
+    nextState: FsmState;
+    output: StoredOutputFunction | null;
+}
+
+interface FsmRaisedEvents {
+    events: Array<[FsmEvent | number | string, unknown]>;
+    count: number;
+}
+
+interface FsmDefaultTransition {
+    nextState: FsmState;
+    output: StoredOutputFunction | null;
+}
+
+interface FsmTokenStep {
+    event: FsmEvent;
+    configuration: FsmTokenConfiguration;
+    previousRecord: FsmTokenRecord;
+    nextRecord: FsmTokenRecord;
+    transitions: FsmTokenTransition[];
+}
 
-export class FiniteStateMachine {
+export class FiniteStateMachine<TContext = unknown, TStateName extends string = string, TEventName extends string = string> {
 
     private readonly _states = new Map<number, FsmState>();
     private readonly _events = new Map<number, FsmEvent>();
     private readonly _initialStates = new Map<string, FsmState>();
-    private readonly _tokenInstances = new Map<string, FsmState>();
+    private readonly _tokenQueues = new Map<string, Promise<void>>();
     private readonly _internalListener = new EventEmitter();
     private _allowSelfTransition = true;
+    private _reenterOnSelfTransition = false;
+    private _actions: FsmActionRegistry;
+    private _tokenStore: TokenStore;
+    private readonly _tokenHistory = new FsmTokenHistory();
+    private readonly _tokenIndex = new FsmTokenIndex();
+    private readonly _tokenExpiry = new FsmTokenExpiry();
+    private _expiryTimer: [number, number] | null = null;
+    private _contextFactory: FsmContextFactory<TContext> | null = null;
+    private _scheduler: FsmScheduler = new SystemScheduler();
+    private readonly _tokenTimers = new Map<string, Array<[FsmPendingTimer, number]>>();
+    private _defaultTransition: FsmDefaultTransition | null = null;
+    private _definitionVersion = 1;
+    private readonly _interceptors: Array<FsmInterceptor<TStateName>> = [];
+    private readonly _raisedEvents = new Map<string, FsmRaisedEvents>();
+    private _runToCompletion = false;
+    private _raisedEventLimit = 100;
+
+    static createNewFiniteStateMachine<TContext = unknown, TStateName extends string = string, TEventName extends string = string>(fsmName: string, actions?: FsmActionRegistry, tokenStore?: TokenStore): FiniteStateMachine<TContext, TStateName, TEventName> {
+        return new FiniteStateMachine<TContext, TStateName, TEventName>(fsmName, undefined, actions, tokenStore);
+    }
+
+    static fromJSON<TContext = unknown, TStateName extends string = string, TEventName extends string = string>(json: FsmJson | string, actions?: FsmActionRegistry, tokenStore?: TokenStore): FiniteStateMachine<TContext, TStateName, TEventName> {
+        const fsmJson: FsmJson = (typeof json === "string") ? JSON.parse(json) : json;
+        if (!fsmJson || typeof fsmJson !== "object") {
+            throw new Error('Invalid FSM JSON: not an object');
+        }
+        if (typeof fsmJson.version !== "number" || fsmJson.version < 1 || fsmJson.version > FSM_JSON_VERSION) {
+            throw new Error(`Invalid FSM JSON: unsupported version ${fsmJson.version}, expected 1 to ${FSM_JSON_VERSION}`);
+        }
+        if (!fsmJson.name?.trim()) {
+            throw new Error('Invalid FSM JSON: missing name');
+        }
+
+        const fsm = new FiniteStateMachine<TContext, TStateName, TEventName>(fsmJson.name, undefined, actions, tokenStore);
+        if (typeof fsmJson.definitionVersion !== "undefined") {
+            if (typeof fsmJson.definitionVersion !== "number") {
+                throw new Error(`Invalid FSM JSON: malformed definition version ${JSON.stringify(fsmJson.definitionVersion)}`);
+            }
+            fsm._definitionVersion = fsmJson.definitionVersion;
+        }
+        for (const stateJson of fsmJson.states || []) {
+            if (typeof stateJson.id !== "number" || !stateJson.name) {
+                throw new Error(`Invalid FSM JSON: malformed state ${JSON.stringify(stateJson)}`);
+            }
+            if (fsm._states.has(stateJson.id)) {
+                throw new Error(`Invalid FSM JSON: duplicate state id ${stateJson.id}`);
+            }
+            const state = stateJson.final ? fsm.addFinalState(stateJson.name, stateJson.id) : fsm.addState(stateJson.name, stateJson.id);
+            if (stateJson.deterministic === false) {
+                state.markNonDeterministic();
+            }
+            if (stateJson.onEnter) {
+                fsm.setEntryAction(state, fsm.getJsonAction(stateJson.onEnter, `entry of state ${stateJson.id}`));
+            }
+            if (stateJson.onExit) {
+                fsm.setExitAction(state, fsm.getJsonAction(stateJson.onExit, `exit of state ${stateJson.id}`));
+            }
+        }
+
+        for (const stateJson of fsmJson.states || []) {
+            if (typeof stateJson.parent === "number") {
+                const parentState = fsm._states.get(stateJson.parent);
+                if (!parentState) {
+                    throw new Error(`Invalid FSM JSON: state ${stateJson.id} references unknown parent state ${stateJson.parent}`);
+                }
+                if (stateJson.parent === stateJson.id || parentState.isDescendantOf(fsm._states.get(stateJson.id) as FsmState)) {
+                    throw new Error(`Invalid FSM JSON: cyclic parent state ${stateJson.parent} for state ${stateJson.id}`);
+                }
+                fsm.setParentState(stateJson.id, parentState);
+            }
+        }
+        for (const stateJson of fsmJson.states || []) {
+            if (typeof stateJson.initialChild === "number") {
+                const childState = fsm._states.get(stateJson.initialChild);
+                if (!childState || childState.parentState?.stateId !== stateJson.id) {
+                    throw new Error(`Invalid FSM JSON: state ${stateJson.id} references unknown initial child state ${stateJson.initialChild}`);
+                }
+                fsm.setInitialChildState(stateJson.id, childState);
+            }
+        }
+
+        for (const eventJson of fsmJson.events || []) {
+            if (typeof eventJson.id !== "number" || !eventJson.name) {
+                throw new Error(`Invalid FSM JSON: malformed event ${JSON.stringify(eventJson)}`);
+            }
+            if (fsm._events.has(eventJson.id)) {
+                throw new Error(`Invalid FSM JSON: duplicate event id ${eventJson.id}`);
+            }
+            fsm.addEvent(eventJson.name, eventJson.id);
+        }
+
+        for (const transitionJson of fsmJson.transitions || []) {
+            const currentState = fsm._states.get(transitionJson.from);
+            const onEvent = fsm._events.get(transitionJson.event);
+            const nextState = fsm._states.get(transitionJson.to);
+            if (!currentState || !onEvent || !nextState) {
+                throw new Error(`Invalid FSM JSON: transition ${FiniteStateMachine.transitionJsonToString(transitionJson)} references unknown ${!currentState ? `state ${transitionJson.from}` : !onEvent ? `event ${transitionJson.event}` : `state ${transitionJson.to}`}`);
+            }
+            const output = transitionJson.action ? fsm.getJsonAction(transitionJson.action, `transition ${FiniteStateMachine.transitionJsonToString(transitionJson)}`) : null;
+            let guard: FsmGuard<TContext> | null = null;
+            if (transitionJson.guard) {
+                guard = fsm._actions.getGuard(transitionJson.guard) as FsmGuard<TContext> | null;
+                if (!guard) {
+                    throw new Error(`Invalid FSM JSON: transition ${FiniteStateMachine.transitionJsonToString(transitionJson)} references unknown guard ${transitionJson.guard}`);
+                }
+            }
+            if (currentState.getTransitionsOnEvent(onEvent).some(transition => transition.guard === guard && transition.nextState.equals(nextState))) {
+                throw new Error(`Invalid FSM JSON: duplicate transition ${FiniteStateMachine.transitionJsonToString(transitionJson)}`);
+            }
+            fsm.addStateTransition(currentState, onEvent, nextState, output || undefined, guard || undefined);
+        }
+
+        for (const stateJson of fsmJson.states || []) {
+            for (const delayJson of stateJson.delays || []) {
+                const onEvent = fsm._events.get(delayJson.event);
+                if (!onEvent) {
+                    throw new Error(`Invalid FSM JSON: delay of state ${stateJson.id} references unknown event ${delayJson.event}`);
+                }
+                (fsm._states.get(stateJson.id) as FsmState).scheduleEvent(onEvent, delayJson.delayMs);
+            }
+            for (const eventId of stateJson.ignoredEvents || []) {
+                const onEvent = fsm._events.get(eventId);
+                if (!onEvent) {
+                    throw new Error(`Invalid FSM JSON: ignored event of state ${stateJson.id} references unknown event ${eventId}`);
+                }
+                fsm.ignoreEvent(stateJson.id, onEvent);
+            }
+            if (stateJson.wildcard) {
+                const nextState = fsm._states.get(stateJson.wildcard.to);
+                if (!nextState) {
+                    throw new Error(`Invalid FSM JSON: wildcard transition of state ${stateJson.id} references unknown state ${stateJson.wildcard.to}`);
+                }
+                const output = stateJson.wildcard.action ? fsm.getJsonAction(stateJson.wildcard.action, `wildcard transition of state ${stateJson.id}`) : undefined;
+                if (stateJson.wildcard.guard && !fsm._actions.getGuard(stateJson.wildcard.guard)) {
+                    throw new Error(`Invalid FSM JSON: wildcard transition of state ${stateJson.id} references unknown guard ${stateJson.wildcard.guard}`);
+                }
+                fsm.setWildcardTransition(stateJson.id, nextState, output, stateJson.wildcard.guard);
+            }
+        }
+
+        for (const epsilonTransitionJson of fsmJson.epsilonTransitions || []) {
+            const currentState = fsm._states.get(epsilonTransitionJson.from);
+            const nextState = fsm._states.get(epsilonTransitionJson.to);
+            if (!currentState || !nextState) {
+                throw new Error(`Invalid FSM JSON: epsilon transition ${epsilonTransitionJson.from} --> ${epsilonTransitionJson.to} references unknown state ${!currentState ? epsilonTransitionJson.from : epsilonTransitionJson.to}`);
+            }
+            fsm.addEpsilonTransition(currentState, nextState);
+        }
+
+        if (fsmJson.defaultTransition) {
+            const nextState = fsm._states.get(fsmJson.defaultTransition.to);
+            if (!nextState) {
+                throw new Error(`Invalid FSM JSON: default transition references unknown state ${fsmJson.defaultTransition.to}`);
+            }
+            const output = fsmJson.defaultTransition.action ? fsm.getJsonAction(fsmJson.defaultTransition.action, 'default transition') : undefined;
+            fsm.setDefaultTransition(nextState, output);
+        }
+
+        fsm.regionNames.forEach(fsmRegionName => fsm.removeInitialState(fsmRegionName));
+        for (const [fsmRegionName, stateId] of Object.entries(fsmJson.initialStates || {})) {
+            const state = fsm._states.get(stateId);
+            if (!state) {
+                throw new Error(`Invalid FSM JSON: initial state for ${fsmRegionName} references unknown state ${stateId}`);
+            }
+            if (state.isInitialState()) {
+                throw new Error(`Invalid FSM JSON: state ${stateId} is initial for both ${state.initialStateRegionName} and ${fsmRegionName}`);
+            }
+            fsm.setInitialState(state, fsmRegionName);
+        }
+
+        fsm.allowSelfTransition = (fsmJson.allowSelfTransition !== false);
+        return fsm;
+    }
+
+    private getJsonAction(actionName: string, description: string): OutputFunction<TContext> {
+        const action = this._actions.get(actionName);
+        if (!action) {
+            throw new Error(`Invalid FSM JSON: ${description} references unknown action ${actionName}`);
+        }
+        // actions are registered for the context of the machine they are loaded into
+        return action as OutputFunction<TContext>;
+    }
 
-    static createNewFiniteStateMachine(fsmName: string): FiniteStateMachine {
-        return new FiniteStateMachine(fsmName);
+    private static transitionJsonToString(transitionJson: FsmTransitionJson) {
+        const guardInfo = transitionJson.guard ? ` [${transitionJson.guard}]` : '';
+        return `${transitionJson.from} ---[ ${transitionJson.event}${guardInfo} ]--> ${transitionJson.to}`;
     }
 
-    private constructor(private readonly _name: string, private _listener?: EventEmitter) {
+    private constructor(private readonly _name: string, private _listener?: EventEmitter, actions?: FsmActionRegistry, tokenStore?: TokenStore) {
+        this._actions = actions || new FsmActionRegistry();
+        this._tokenStore = tokenStore || new MemoryTokenStore();
+        this.rebuildTokenIndex();
         this._internalListener.on('error', (error) => {
             console.log(`${this._name}:Error: ${error}`);
         });
     }
 
     clearAll(): void {
+        this.cancelTokenTimers();
         this._states.clear();
         this._events.clear();
         this._initialStates.clear();
@@ -65,6 +333,22 @@ export class FiniteStateMachine {
         return this._name;
     }
 
+    get definitionVersion() {
+        return this._definitionVersion;
+    }
+
+    set definitionVersion(version: number) {
+        this._definitionVersion = version;
+    }
+
+    get reenterOnSelfTransition() {
+        return this._reenterOnSelfTransition;
+    }
+
+    set reenterOnSelfTransition(reenter: boolean) {
+        this._reenterOnSelfTransition = reenter;
+    }
+
     get allowSelfTransition() {
         return this._allowSelfTransition;
     }
@@ -73,6 +357,66 @@ export class FiniteStateMachine {
         this._allowSelfTransition = allow;
     }
 
+    get actions() {
+        return this._actions;
+    }
+
+    get runToCompletion() {
+        return this._runToCompletion;
+    }
+
+    set runToCompletion(runToCompletion: boolean) {
+        this._runToCompletion = runToCompletion;
+    }
+
+    get raisedEventLimit() {
+        return this._raisedEventLimit;
+    }
+
+    set raisedEventLimit(limit: number) {
+        this._raisedEventLimit = Math.max(0, limit);
+    }
+
+    get interceptors() {
+        return [...this._interceptors];
+    }
+
+    use(interceptor: FsmInterceptor<TStateName>): this {
+        this._interceptors.push(interceptor);
+        return this;
+    }
+
+    removeInterceptor(interceptor: FsmInterceptor<TStateName>): boolean {
+        const index = this._interceptors.indexOf(interceptor);
+        if (index < 0) {
+            return false;
+        }
+        this._interceptors.splice(index, 1);
+        return true;
+    }
+
+    registerAction(actionName: string, action: OutputFunction<TContext>): this {
+        this._actions.register(actionName, action);
+        return this;
+    }
+
+    registerGuard(guardName: string, guard: FsmGuard<TContext>): this {
+        this._actions.registerGuard(guardName, guard);
+        return this;
+    }
+
+    get states() {
+        return Array.from(this._states.values());
+    }
+
+    get events() {
+        return Array.from(this._events.values());
+    }
+
+    get regionNames() {
+        return Array.from(this._initialStates.keys());
+    }
+
     getInitialState(fsmRegionName?: string): FsmState | null {
         if (!fsmRegionName) {
             fsmRegionName = this._name;
@@ -102,7 +446,25 @@ export class FiniteStateMachine {
         return true;
     }
 
-    getState(state: number | string, stateName?: string): FsmState | null {
+    removeInitialState(fsmRegionName?: string): boolean {
+        if (!fsmRegionName) {
+            fsmRegionName = this._name;
+        }
+
+        const currentInitialState = this._initialStates.get(fsmRegionName);
+        if (!currentInitialState) {
+            return false;
+        }
+
+        this._initialStates.delete(fsmRegionName);
+        if (currentInitialState.initialStateRegionName === fsmRegionName) {
+            currentInitialState.unmarkInitial();
+        }
+        this._internalListener.emit(FsmListenerEvent.onInitialStateRemoved, currentInitialState, fsmRegionName);
+        return true;
+    }
+
+    getState(state: number | TStateName, stateName?: string): FsmState | null {
         if (typeof stateName !== "undefined") {
             if (typeof state === "number") {
                 const stateObj = this._states.get(state) || null;
@@ -128,7 +490,7 @@ export class FiniteStateMachine {
 
     addState(stateName: string, stateId?: number) {
         if (typeof stateId === "undefined" || stateId === null) {
-            stateId = this._states.size;
+            stateId = FiniteStateMachine.getNextId(this._states);
         }
 
         const newState = new FsmState(this._name, stateId, stateName);
@@ -146,8 +508,8 @@ export class FiniteStateMachine {
 
     addFinalState(stateName: string, stateId?: number) {
         if (typeof stateId === "undefined" || stateId === null) {
-            stateId = this._states.size
-        };
+            stateId = FiniteStateMachine.getNextId(this._states);
+        }
 
         const newFinalState = new FsmState(this._name, stateId, stateName, true);
         if (this._states.has(stateId)) {
@@ -162,7 +524,153 @@ export class FiniteStateMachine {
         return newFinalState;
     }
 
-    getEvent(event: number | string, eventName?: string): FsmEvent | null {
+    removeState(state: FsmState | number | TStateName, options: FsmStateRemovalOptions<TStateName> = {}): this {
+        const stateObj = (state instanceof FsmState) ? state : this.getState(state);
+        if (!stateObj || this._states.get(stateObj.stateId) !== stateObj) {
+            throw new Error(`Invalid action: cannot remove unknown state ${state}[${this._name}]`);
+        }
+
+        // a composite state is removed together with its child states
+        const removedStates = [stateObj, ...this.states.filter(otherState => otherState.isDescendantOf(stateObj))];
+        const removedStateIds = new Set(removedStates.map(removedState => removedState.stateId));
+        const tokenPolicy = options.tokenPolicy || FsmTokenPolicy.reject;
+        const affectedTokenIds = new Set<string>();
+        removedStateIds.forEach(stateId => this._tokenIndex.getTokenIds(stateId).forEach(tokenId => affectedTokenIds.add(tokenId)));
+        const affectedTokens = Array.from(affectedTokenIds).map(tokenId => [tokenId, this._tokenStore.get(tokenId) as FsmTokenRecord] as [string, FsmTokenRecord]);
+        let fallbackState: FsmState | null = null;
+        if (affectedTokens.length > 0 && tokenPolicy === FsmTokenPolicy.reject) {
+            throw new Error(`Invalid action: cannot remove state ${stateObj}, token instances ${affectedTokens.map(([tokenId]) => tokenId).join(', ')} are in it[${this._name}]`);
+        }
+        if (affectedTokens.length > 0 && tokenPolicy === FsmTokenPolicy.fallback) {
+            const fallbackStateRef = options.fallbackState;
+            fallbackState = (typeof fallbackStateRef === "undefined" || fallbackStateRef instanceof FsmState) ? fallbackStateRef || null : this.getState(fallbackStateRef);
+            if (!fallbackState || removedStateIds.has(fallbackState.stateId)) {
+                throw new Error(`Invalid action: invalid fallback state ${options.fallbackState} for removed state ${stateObj}[${this._name}]`);
+            }
+        }
+
+        // a removed initial state is replaced by a state it led to, never by a final state
+        const initialStateCandidates = new Map<string, FsmState[]>();
+        this._initialStates.forEach((initialState, fsmRegionName) => {
+            if (!removedStateIds.has(initialState.stateId)) {
+                return;
+            }
+            const nextStates = [...initialState.getTransitions().map(transition => transition.nextState), ...initialState.epsilonTransitions];
+            initialState.wildcardTransition && nextStates.push(initialState.wildcardTransition.nextState);
+            initialStateCandidates.set(fsmRegionName, nextStates.map(nextState => [nextState, ...nextState.getAncestors()].find(activeState => !activeState.parentState) as FsmState));
+        });
+
+        this.states.forEach(fromState => {
+            const isRemoved = removedStateIds.has(fromState.stateId);
+            fromState.getTransitions()
+                .filter(transition => isRemoved || removedStateIds.has(transition.nextState.stateId))
+                .forEach(transition => {
+                    // guarded and unguarded transitions to the same state are removed together
+                    if (fromState.hasNextStateOnEvent(transition.onEvent, transition.nextState)) {
+                        this.removeStateTransition(fromState, transition.onEvent, transition.nextState);
+                    }
+                });
+            fromState.epsilonTransitions
+                .filter(nextState => isRemoved || removedStateIds.has(nextState.stateId))
+                .forEach(nextState => this.removeEpsilonTransition(fromState, nextState));
+            if (fromState.wildcardTransition && (isRemoved || removedStateIds.has(fromState.wildcardTransition.nextState.stateId))) {
+                this.removeWildcardTransition(fromState);
+            }
+        });
+        if (this._defaultTransition && removedStateIds.has(this._defaultTransition.nextState.stateId)) {
+            this.removeDefaultTransition();
+        }
+        stateObj.setParentState(null);
+        removedStates.forEach(removedState => {
+            this._states.delete(removedState.stateId);
+            this._internalListener.emit(FsmListenerEvent.onStateRemoved, removedState);
+        });
+
+        // without such a state the region is left without an initial state, the removal event lets the caller pick one
+        initialStateCandidates.forEach((candidates, fsmRegionName) => {
+            const newInitialState = candidates.find(candidate => !removedStateIds.has(candidate.stateId) && !candidate.isInitialState() && !candidate.isMarkedFinal());
+            newInitialState ? this.setInitialState(newInitialState, fsmRegionName) : this.removeInitialState(fsmRegionName);
+        });
+
+        this.cancelStaleTokenTimers();
+        affectedTokens.forEach(([tokenId, record]) => {
+            if (!fallbackState) {
+                this.deleteTokenRecord(tokenId);
+                this._listener?.emit(TokenListenerEvent.onTokenDropped, tokenId, stateObj);
+                return;
+            }
+            // migrated tokens are moved to the fallback state without executing any action
+            const fallbackLeafState = fallbackState.getInitialLeafState();
+            const migratedRecord = FiniteStateMachine.copyTokenRecord(record);
+            Object.entries(record.states).forEach(([fsmRegionName, stateId]) => {
+                const stateSet = record.stateSets?.[fsmRegionName];
+                if (!stateSet) {
+                    migratedRecord.states[fsmRegionName] = removedStateIds.has(stateId) ? fallbackLeafState.stateId : stateId;
+                    return;
+                }
+                const remainingStateIds = stateSet.filter(stateSetId => !removedStateIds.has(stateSetId));
+                const migratedStateSet = (remainingStateIds.length > 0) ? remainingStateIds : fallbackLeafState.getEpsilonClosure().map(closureState => closureState.stateId);
+                (migratedRecord.stateSets as { [fsmRegionName: string]: number[] })[fsmRegionName] = migratedStateSet;
+                migratedRecord.states[fsmRegionName] = migratedStateSet.includes(stateId) ? stateId : migratedStateSet[0];
+            });
+            this.setTokenRecord(tokenId, migratedRecord);
+            const configuration = this.toTokenConfiguration(tokenId, migratedRecord);
+            migratedRecord.stateSets ? this.cancelTokenTimers(tokenId) : this.restartTokenTimers(tokenId, configuration);
+            this._listener?.emit(TokenListenerEvent.onTokenMigrated, tokenId, configuration, stateObj);
+        });
+        return this;
+    }
+
+    setEntryAction(state: FsmState | number | TStateName, action: OutputFunction<TContext> | string | null): this {
+        const stateObj = (state instanceof FsmState) ? state : this.getState(state);
+        if (!stateObj) {
+            throw new Error(`Invalid action: cannot set entry action of unknown state ${state}[${this._name}]`);
+        }
+        stateObj.onEnter(this.resolveAction(action));
+        return this;
+    }
+
+    setExitAction(state: FsmState | number | TStateName, action: OutputFunction<TContext> | string | null): this {
+        const stateObj = (state instanceof FsmState) ? state : this.getState(state);
+        if (!stateObj) {
+            throw new Error(`Invalid action: cannot set exit action of unknown state ${state}[${this._name}]`);
+        }
+        stateObj.onExit(this.resolveAction(action));
+        return this;
+    }
+
+    private resolveAction(action: OutputFunction<TContext> | string | null | undefined): StoredOutputFunction | null {
+        if (typeof action !== "string") {
+            return action || null;
+        }
+        const actionObj = this._actions.get(action);
+        if (!actionObj) {
+            throw new Error(`Invalid action: unknown action ${action}[${this._name}]`);
+        }
+        return actionObj;
+    }
+
+    setParentState(state: FsmState | number | TStateName, parentState: FsmState | number | TStateName | null): this {
+        const stateObj = (state instanceof FsmState) ? state : this.getState(state);
+        const parentStateObj = (parentState === null || parentState instanceof FsmState) ? parentState : this.getState(parentState);
+        if (!stateObj || (parentState !== null && !parentStateObj)) {
+            throw new Error('Invalid action: cannot set parent state on incomplete input');
+        }
+        stateObj.setParentState(parentStateObj);
+        return this;
+    }
+
+    setInitialChildState(parentState: FsmState | number | TStateName, childState: FsmState | number | TStateName): this {
+        const parentStateObj = (parentState instanceof FsmState) ? parentState : this.getState(parentState);
+        const childStateObj = (childState instanceof FsmState) ? childState : this.getState(childState);
+        if (!parentStateObj || !childStateObj) {
+            throw new Error('Invalid action: cannot set initial child state on incomplete input');
+        }
+        parentStateObj.setInitialChildState(childStateObj);
+        return this;
+    }
+
+    getEvent(event: number | TEventName, eventName?: string): FsmEvent | null {
         if (typeof eventName !== "undefined") {
             if (typeof event === "number") {
                 const eventObj = this._events.get(event) || null;
@@ -186,12 +694,12 @@ export class FiniteStateMachine {
         }
     }
 
-    addEvent(eventName: string, eventId?: number) {
+    addEvent<TPayload = unknown>(eventName: string, eventId?: number): FsmEvent<TPayload> {
         if (typeof eventId === "undefined" || eventId === null) {
-            eventId = this._events.size
-        };
+            eventId = FiniteStateMachine.getNextId(this._events);
+        }
 
-        const newEvent = new FsmEvent(eventId, eventName);
+        const newEvent = new FsmEvent<TPayload>(eventId, eventName);
         if (this._events.has(eventId)) {
             throw new Error(`Invalid action: duplicate event: ${newEvent}[${this._name}]`);
         }
@@ -200,7 +708,33 @@ export class FiniteStateMachine {
         return newEvent;
     }
 
-    addStateTransition(currentState: FsmState | number | string, onEvent: FsmEvent | number | string, nextState: FsmState | number | string): FiniteStateMachine {
+    removeEvent(event: FsmEvent | number | TEventName): this {
+        const eventObj = (event instanceof FsmEvent) ? event : this.getEvent(event);
+        if (!eventObj || this._events.get(eventObj.eventId) !== eventObj) {
+            throw new Error(`Invalid action: cannot remove unknown event ${event}[${this._name}]`);
+        }
+
+        this._states.forEach(state => {
+            if (state.getTransitionsOnEvent(eventObj).length > 0) {
+                this.removeStateTransition(state, eventObj);
+            }
+            state.unignoreEvent(eventObj);
+        });
+        this._events.delete(eventObj.eventId);
+        this.cancelStaleTokenTimers();
+        this._internalListener.emit(FsmListenerEvent.onEventRemoved, eventObj);
+        return this;
+    }
+
+    private static getNextId(items: Map<number, unknown>) {
+        let nextId = items.size;
+        while (items.has(nextId)) {
+            ++nextId;
+        }
+        return nextId;
+    }
+
+    addStateTransition(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName, nextState: FsmState | number | TStateName, output?: OutputFunction<TContext> | string, guard?: FsmGuard<TContext> | string): this {
         const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
         const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
         const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
@@ -209,16 +743,40 @@ export class FiniteStateMachine {
             throw new Error('Invalid action: cannot create state transition on incomplete input');
         }
 
+        const outputObj = this.resolveAction(output);
+
+        const guardObj = (typeof guard === "string") ? this._actions.getGuard(guard) : guard;
+        if (typeof guard === "string" && !guardObj) {
+            throw new Error(`Invalid action: unknown guard ${guard}[${this._name}]`);
+        }
+
         if (!this.allowSelfTransition && currentStateObj.equals(nextStateObj)) {
             throw new Error(`Invalid action: self transition disabled for ${currentState}[${this._name}]`);
         }
 
-        currentStateObj.addTransition(onEventObj, nextStateObj);
+        currentStateObj.addTransition(onEventObj, nextStateObj, outputObj || undefined, guardObj || undefined);
         this._internalListener.emit(FsmListenerEvent.onNewTransitionAdded, currentStateObj, onEventObj, nextStateObj);
         return this;
     }
 
-    addStateTransitionForAllStates(onEvent: FsmEvent | number | string, nextState: FsmState | number | string): FiniteStateMachine {
+    addDelayedTransition(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName, delayMs: number, nextState: FsmState | number | TStateName, output?: OutputFunction<TContext> | string, guard?: FsmGuard<TContext> | string): this {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) {
+            throw new Error('Invalid action: cannot create delayed transition on incomplete input');
+        }
+
+        currentStateObj.scheduleEvent(onEventObj, delayMs);
+        try {
+            return this.addStateTransition(currentStateObj, onEventObj, nextState, output, guard);
+        } catch (error) {
+            currentStateObj.unscheduleEvent(onEventObj);
+            throw error;
+        }
+    }
+
+    addStateTransitionForAllStates(onEvent: FsmEvent | number | TEventName, nextState: FsmState | number | TStateName): this {
         const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
         const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
 
@@ -238,156 +796,1203 @@ export class FiniteStateMachine {
         return this;
     }
 
-    removeStateTransition(currentState: FsmState | number | string, onEvent: FsmEvent | number | string): FiniteStateMachine {
+    removeStateTransition(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName, nextState?: FsmState | number | TStateName): this {
         const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
         const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+        const nextStateObj = (typeof nextState === "undefined" || nextState instanceof FsmState) ? nextState : this.getState(nextState);
 
-        if (!currentStateObj || !onEventObj) {
+        if (!currentStateObj || !onEventObj || nextStateObj === null) {
             throw new Error('Invalid action: cannot remove state transition on incomplete input');
         }
-        currentStateObj.removeTransition(onEventObj);
-        this._internalListener.emit(FsmListenerEvent.onTransitionRemoved, currentStateObj, onEventObj);
+        currentStateObj.removeTransition(onEventObj, nextStateObj);
+        if (currentStateObj.getTransitionsOnEvent(onEventObj).length === 0) {
+            currentStateObj.unscheduleEvent(onEventObj);
+        }
+        this._internalListener.emit(FsmListenerEvent.onTransitionRemoved, currentStateObj, onEventObj, nextStateObj);
         return this;
     }
 
-    removeAllStatesTransitionForEvent(onEvent: FsmEvent | number | string): FiniteStateMachine {
-        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+    addEpsilonTransition(currentState: FsmState | number | TStateName, nextState: FsmState | number | TStateName): this {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
 
-        if (!onEventObj) {
-            throw new Error('Invalid action: cannot remove state transition on incomplete input');
+        if (!currentStateObj || !nextStateObj) {
+            throw new Error('Invalid action: cannot create epsilon transition on incomplete input');
         }
 
-        this._states.forEach(state => {
-            if (!state.isFinalState()) {
-                try {
-                    this.removeStateTransition(state, onEventObj);
-                } catch (error) {
-                    // ignore
-                }
-            }
-        });
+        if (currentStateObj.equals(nextStateObj)) {
+            throw new Error(`Invalid action: epsilon self transition for ${currentState}[${this._name}]`);
+        }
+
+        currentStateObj.addEpsilonTransition(nextStateObj);
+        this._internalListener.emit(FsmListenerEvent.onNewTransitionAdded, currentStateObj, null, nextStateObj);
         return this;
     }
 
-    nextState(currentState: FsmState | number | string, onEvent: FsmEvent | number | string): FsmState | null {
+    removeEpsilonTransition(currentState: FsmState | number | TStateName, nextState: FsmState | number | TStateName): this {
         const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
-        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+        const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
 
-        if (!currentStateObj || !onEventObj) { return null; }
-        return currentStateObj.nextState(onEventObj) || null;
+        if (!currentStateObj || !nextStateObj) {
+            throw new Error('Invalid action: cannot remove epsilon transition on incomplete input');
+        }
+        currentStateObj.removeEpsilonTransition(nextStateObj);
+        this._internalListener.emit(FsmListenerEvent.onTransitionRemoved, currentStateObj, null, nextStateObj);
+        return this;
     }
 
-    isTransitionValid(currentState: FsmState | number | string, onEvent: FsmEvent | number | string, newState: FsmState | number | string): boolean {
+    setWildcardTransition(currentState: FsmState | number | TStateName, nextState: FsmState | number | TStateName, output?: OutputFunction<TContext> | string, guard?: FsmGuard<TContext> | string): this {
         const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
-        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
-        const newStateObj = (newState instanceof FsmState) ? newState : this.getState(newState);
+        const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
 
-        if (!currentStateObj || !onEventObj || !newStateObj) { return false; }
-        return currentStateObj.hasNextStateOnEvent(onEventObj, newStateObj);
-    }
+        if (!currentStateObj || !nextStateObj) {
+            throw new Error('Invalid action: cannot create wildcard transition on incomplete input');
+        }
 
-    isTransitionValidByEvent(currentState: FsmState | number | string, onEvent: FsmEvent | number | string): boolean {
-        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
-        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+        const outputObj = this.resolveAction(output);
 
-        if (!currentStateObj || !onEventObj) { return false; }
-        return currentStateObj.isTransitionValid(onEventObj);
-    }
+        const guardObj = (typeof guard === "string") ? this._actions.getGuard(guard) : guard;
+        if (typeof guard === "string" && !guardObj) {
+            throw new Error(`Invalid action: unknown guard ${guard}[${this._name}]`);
+        }
 
-    getStateTableString(separator?: string) {
-        if (!separator) {
-            separator = '';
+        if (!this.allowSelfTransition && currentStateObj.equals(nextStateObj)) {
+            throw new Error(`Invalid action: self transition disabled for ${currentState}[${this._name}]`);
         }
-        let allStateTables = '';
-        this._states.forEach(state => {
-            allStateTables += `${separator}${state.getStateTableString(separator)}`;
-        });
-        return allStateTables;
+
+        currentStateObj.setWildcardTransition(nextStateObj, outputObj || undefined, guardObj || undefined);
+        this._internalListener.emit(FsmListenerEvent.onNewTransitionAdded, currentStateObj, null, nextStateObj);
+        return this;
     }
 
-    createTokenInstance(tokenId: string, reset: boolean = false, fsmRegionName?: string): FsmState {
-        if (!tokenId?.trim()) {
-            throw new Error('Invalid action: invalid tokenId');
-        }
-        if (!reset && this._tokenInstances.has(tokenId)) {
-            throw new Error(`Invalid action: token instance ${tokenId} exists`);
-        }
-        const token = this.getInitialState(fsmRegionName);
-        if (!token) {
-            throw new Error(`No initial state for ${fsmRegionName ?? this._name}`);
+    removeWildcardTransition(currentState: FsmState | number | TStateName): this {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+
+        if (!currentStateObj?.wildcardTransition) {
+            throw new Error('Invalid action: cannot remove wildcard transition on incomplete input');
         }
-        this._tokenInstances.set(tokenId, token);
-        this._listener?.emit(TokenListenerEvent.onTokenCreated, tokenId, token);
-        return token;
+        const nextStateObj = currentStateObj.wildcardTransition.nextState;
+        currentStateObj.removeWildcardTransition();
+        this._internalListener.emit(FsmListenerEvent.onTransitionRemoved, currentStateObj, null, nextStateObj);
+        return this;
     }
 
-    getTokenInstance(tokenId: string, autoCreate = true, fsmRegionName?: string): FsmState {
-        if (!tokenId?.trim()) {
-            this._listener?.emit(TokenListenerEvent.onErrorTokenIdNotFound, tokenId);
+    ignoreEvent(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): this {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) {
+            throw new Error('Invalid action: cannot ignore event on incomplete input');
+        }
+        currentStateObj.ignoreEvent(onEventObj);
+        return this;
+    }
+
+    unignoreEvent(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): this {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) {
+            throw new Error('Invalid action: cannot unignore event on incomplete input');
+        }
+        currentStateObj.unignoreEvent(onEventObj);
+        return this;
+    }
+
+    get defaultTransition() {
+        return this._defaultTransition ? { ...this._defaultTransition } : null;
+    }
+
+    setDefaultTransition(nextState: FsmState | number | TStateName, output?: OutputFunction<TContext> | string): this {
+        const nextStateObj = (nextState instanceof FsmState) ? nextState : this.getState(nextState);
+
+        if (!nextStateObj) {
+            throw new Error('Invalid action: cannot create default transition on incomplete input');
+        }
+        this._defaultTransition = { nextState: nextStateObj, output: this.resolveAction(output) };
+        this._internalListener.emit(FsmListenerEvent.onNewTransitionAdded, null, null, nextStateObj);
+        return this;
+    }
+
+    removeDefaultTransition(): this {
+        if (!this._defaultTransition) {
+            throw new Error(`Invalid action: cannot remove non-existent default transition[${this._name}]`);
+        }
+        const nextStateObj = this._defaultTransition.nextState;
+        this._defaultTransition = null;
+        this._internalListener.emit(FsmListenerEvent.onTransitionRemoved, null, null, nextStateObj);
+        return this;
+    }
+
+    getEventHandling(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): FsmEventHandling | null {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) { return null; }
+        return currentStateObj.getEventHandling(onEventObj) || (this.getDefaultTransition(currentStateObj, onEventObj) ? 'default' : null);
+    }
+
+    private getDefaultTransition(currentState: FsmState, onEvent: FsmEvent): FsmTransition | null {
+        // the machine default only applies to states that have no handling of their own for the event
+        if (!this._defaultTransition || currentState.isFinalState() || currentState.getEventHandling(onEvent)) {
+            return null;
+        }
+        return { fromState: currentState, onEvent, nextState: this._defaultTransition.nextState, output: this._defaultTransition.output, guard: null };
+    }
+
+    removeAllStatesTransitionForEvent(onEvent: FsmEvent | number | TEventName): this {
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!onEventObj) {
+            throw new Error('Invalid action: cannot remove state transition on incomplete input');
+        }
+
+        this._states.forEach(state => {
+            if (!state.isFinalState()) {
+                try {
+                    this.removeStateTransition(state, onEventObj);
+                } catch (error) {
+                    // ignore
+                }
+            }
+        });
+        return this;
+    }
+
+    nextState(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): FsmState | null {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) { return null; }
+        return this.nextStates(currentStateObj, onEventObj)[0] || null;
+    }
+
+    nextStates(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): FsmState[] {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) { return []; }
+        const nextStates = currentStateObj.nextStates(onEventObj);
+        const defaultTransition = (nextStates.length === 0) ? this.getDefaultTransition(currentStateObj, onEventObj) : null;
+        return defaultTransition ? [defaultTransition.nextState.getInitialLeafState()] : nextStates;
+    }
+
+    isTransitionValid(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName, newState: FsmState | number | TStateName): boolean {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+        const newStateObj = (newState instanceof FsmState) ? newState : this.getState(newState);
+
+        if (!currentStateObj || !onEventObj || !newStateObj) { return false; }
+        return currentStateObj.getEventHandlingStates().some(state => state.hasNextStateOnEvent(onEventObj, newStateObj));
+    }
+
+    isTransitionValidByEvent(currentState: FsmState | number | TStateName, onEvent: FsmEvent | number | TEventName): boolean {
+        const currentStateObj = (currentState instanceof FsmState) ? currentState : this.getState(currentState);
+        const onEventObj = (onEvent instanceof FsmEvent) ? onEvent : this.getEvent(onEvent);
+
+        if (!currentStateObj || !onEventObj) { return false; }
+        return currentStateObj.getEventHandlingStates().some(state => state.isTransitionValid(onEventObj));
+    }
+
+    private getStatesInHierarchyOrder(): Array<[FsmState, number]> {
+        const orderedStates: Array<[FsmState, number]> = [];
+        const addState = (state: FsmState, depth: number) => {
+            orderedStates.push([state, depth]);
+            state.childStates.forEach(childState => addState(childState, depth + 1));
+        };
+        this._states.forEach(state => {
+            if (!state.parentState) {
+                addState(state, 0);
+            }
+        });
+        return orderedStates;
+    }
+
+    validate(options?: FsmValidationOptions): FsmValidationReport {
+        return new FsmValidator(this).validate(options);
+    }
+
+    minimize(fsmName?: string): FsmMinimizationResult<TContext> {
+        return new FsmMinimizer(this).minimize(fsmName);
+    }
+
+    isEquivalent<TOtherContext>(otherFsm: FiniteStateMachine<TOtherContext>, options?: FsmEquivalenceOptions): FsmEquivalenceResult {
+        return new FsmMinimizer(this).isEquivalent(otherFsm, options);
+    }
+
+    determinize(fsmName?: string): FsmDeterminizationResult<TContext> {
+        return new FsmDeterminizer(this).determinize(fsmName);
+    }
+
+    product<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName?: string): FsmCompositionResult {
+        return new FsmComposer(this).product(other, fsmName);
+    }
+
+    union<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName?: string): FsmCompositionResult {
+        return new FsmComposer(this).union(other, fsmName);
+    }
+
+    intersection<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName?: string): FsmCompositionResult {
+        return new FsmComposer(this).intersection(other, fsmName);
+    }
+
+    complement(fsmName?: string): FsmCompositionResult {
+        return new FsmComposer(this).complement(fsmName);
+    }
+
+    run(events: Iterable<FsmEvent | number | TEventName>, fromState?: FsmState | number | TStateName): FsmRunResult {
+        return new FsmSimulator(this).run(events, fromState);
+    }
+
+    runAsync(events: Iterable<FsmEvent | number | TEventName> | AsyncIterable<FsmEvent | number | TEventName>, fromState?: FsmState | number | TStateName): Promise<FsmRunResult> {
+        return new FsmSimulator(this).runAsync(events, fromState);
+    }
+
+    accepts(events: Iterable<FsmEvent | number | TEventName>, acceptingStates?: Array<FsmState | number | TStateName>): boolean {
+        return new FsmSimulator(this).accepts(events, acceptingStates);
+    }
+
+    shortestPath(fromState: FsmState | number | TStateName, toState: FsmState | number | TStateName): FsmEvent[] | null {
+        return new FsmPathFinder(this).shortestPath(fromState, toState);
+    }
+
+    generateStateCoverage(fromState?: FsmState | number | TStateName): FsmTestSequence[] {
+        return new FsmPathFinder(this).generateStateCoverage(fromState);
+    }
+
+    generateTransitionTour(fromState?: FsmState | number | TStateName): FsmTestSequence[] {
+        return new FsmPathFinder(this).generateTransitionTour(fromState);
+    }
+
+    generateRandomWalk(length: number, seed: number, fromState?: FsmState | number | TStateName): FsmTestSequence {
+        return new FsmPathFinder(this).generateRandomWalk(length, seed, fromState);
+    }
+
+    getStateTableString(separator?: string) {
+        if (!separator) {
+            separator = '';
+        }
+        let allStateTables = '';
+        this.getStatesInHierarchyOrder().forEach(([state]) => {
+            allStateTables += `${separator}${state.getStateTableString(separator, guard => this._actions.getGuardName(guard))}`;
+        });
+        if (this._defaultTransition) {
+            allStateTables += `${separator}*default* ---[ *any* ]--> ${this._defaultTransition.nextState}\n`;
+        }
+        return allStateTables;
+    }
+
+    get contextFactory() {
+        return this._contextFactory;
+    }
+
+    set contextFactory(contextFactory: FsmContextFactory<TContext> | null) {
+        this._contextFactory = contextFactory;
+    }
+
+    get scheduler() {
+        return this._scheduler;
+    }
+
+    set scheduler(newScheduler: FsmScheduler) {
+        // pending timers keep their due time on the new scheduler
+        const pendingTimers = Array.from(this._tokenTimers.values()).map(timers => timers.map(([timer]) => timer));
+        this.cancelTokenTimers();
+        this.cancelTokenExpiry();
+        this._scheduler = newScheduler;
+        pendingTimers.forEach(timers => timers.forEach(timer => this.startTokenTimer(timer.tokenId, timer.fsmRegionName, timer.state, timer.event, timer.delayMs, timer.dueTime)));
+        this.scheduleTokenExpiry();
+    }
+
+    getPendingTimers(tokenId: string): FsmPendingTimer[] {
+        return (this._tokenTimers.get(tokenId) || []).map(([timer]) => ({ ...timer }));
+    }
+
+    private startTokenTimers(tokenId: string, fsmRegionName: string, states: FsmState[]) {
+        states.forEach(state => state.eventDelays.forEach(([event, delayMs]) => {
+            this.startTokenTimer(tokenId, fsmRegionName, state, event, delayMs, this._scheduler.now() + delayMs);
+        }));
+    }
+
+    private startTokenTimer(tokenId: string, fsmRegionName: string, state: FsmState, event: FsmEvent, delayMs: number, dueTime: number) {
+        const timer: FsmPendingTimer = { tokenId, fsmRegionName, state, event, delayMs, dueTime };
+        const timerId = this._scheduler.schedule(() => this.fireTokenTimer(timer), Math.max(0, dueTime - this._scheduler.now()));
+        this._tokenTimers.set(tokenId, [...(this._tokenTimers.get(tokenId) || []), [timer, timerId]]);
+    }
+
+    private cancelTokenTimers(tokenId?: string, fsmRegionName?: string, states?: FsmState[]) {
+        this.cancelTokenTimersWhere(tokenId, timer => (!fsmRegionName || timer.fsmRegionName === fsmRegionName) && (!states || states.includes(timer.state)));
+    }
+
+    private cancelStaleTokenTimers() {
+        // timers of removed states or of delayed transitions that no longer exist
+        this.cancelTokenTimersWhere(undefined, timer => this._states.get(timer.state.stateId) !== timer.state || timer.state.getEventDelay(timer.event) === null);
+    }
+
+    private cancelTokenTimersWhere(tokenId: string | undefined, isCancelled: (timer: FsmPendingTimer) => boolean) {
+        (tokenId ? [tokenId] : Array.from(this._tokenTimers.keys())).forEach(timerTokenId => {
+            const remainingTimers = (this._tokenTimers.get(timerTokenId) || []).filter(([timer, timerId]) => {
+                if (!isCancelled(timer)) {
+                    return true;
+                }
+                this._scheduler.cancel(timerId);
+                return false;
+            });
+            remainingTimers.length > 0 ? this._tokenTimers.set(timerTokenId, remainingTimers) : this._tokenTimers.delete(timerTokenId);
+        });
+    }
+
+    private fireTokenTimer(timer: FsmPendingTimer) {
+        const remainingTimers = (this._tokenTimers.get(timer.tokenId) || []).filter(([pendingTimer]) => pendingTimer !== timer);
+        remainingTimers.length > 0 ? this._tokenTimers.set(timer.tokenId, remainingTimers) : this._tokenTimers.delete(timer.tokenId);
+        if (!this._tokenStore.has(timer.tokenId)) {
+            return;
+        }
+        try {
+            if (this._tokenQueues.has(timer.tokenId)) {
+                this.updateTokenToNextStateAsync(timer.tokenId, timer.event).catch(() => undefined);
+            } else {
+                this.updateTokenToNextState(timer.tokenId, timer.event);
+            }
+        } catch (error) {
+            // listeners have already been notified of the rejected transition
+        }
+    }
+
+    private restartTokenTimers(tokenId: string, configuration: FsmTokenConfiguration) {
+        this.cancelTokenTimers(tokenId);
+        for (const [fsmRegionName, state] of configuration.entries()) {
+            this.startTokenTimers(tokenId, fsmRegionName, [...state.getAncestors().reverse(), state]);
+        }
+    }
+
+    private updateTokenTimers(tokenId: string, step: FsmTokenStep) {
+        step.transitions.forEach(transition => {
+            const { exitStates, entryStates } = this.getExitEntryStates(transition);
+            this.cancelTokenTimers(tokenId, transition.fsmRegionName, exitStates);
+            this.startTokenTimers(tokenId, transition.fsmRegionName, entryStates);
+        });
+    }
+
+    get tokenStore() {
+        return this._tokenStore;
+    }
+
+    set tokenStore(newTokenStore: TokenStore) {
+        this._tokenStore = newTokenStore;
+        this.rebuildTokenIndex();
+    }
+
+    rebuildTokenIndex(): this {
+        // needed after the token store has been changed behind the back of the fsm
+        this._tokenIndex.clear();
+        for (const [tokenId, record] of this._tokenStore.entries()) {
+            this._tokenIndex.set(tokenId, FiniteStateMachine.getTokenRecordStateIds(record));
+        }
+        this.rebuildTokenExpiry();
+        return this;
+    }
+
+    private rebuildTokenExpiry() {
+        // timestamps are only kept while expiry is enabled, the tokens known by then start their lifetime now
+        this._tokenExpiry.clear();
+        if (this._tokenExpiry.isEnabled) {
+            const now = this._scheduler.now();
+            Array.from(this._tokenIndex.tokenIds()).forEach(tokenId => this._tokenExpiry.touch(tokenId, now, true));
+        }
+        this.cancelTokenExpiry();
+        this.scheduleTokenExpiry();
+    }
+
+    private setTokenRecord(tokenId: string, record: FsmTokenRecord, isNewToken = false) {
+        this._tokenStore.set(tokenId, record);
+        this._tokenIndex.set(tokenId, FiniteStateMachine.getTokenRecordStateIds(record));
+        if (this._tokenExpiry.isEnabled) {
+            this._tokenExpiry.touch(tokenId, this._scheduler.now(), isNewToken);
+            this.scheduleTokenExpiry();
+        }
+    }
+
+    private deleteTokenRecord(tokenId: string) {
+        const isDeleted = this._tokenStore.delete(tokenId);
+        this.forgetTokenRecord(tokenId);
+        return isDeleted;
+    }
+
+    private forgetTokenRecord(tokenId: string) {
+        this._tokenIndex.delete(tokenId);
+        this._tokenExpiry.delete(tokenId);
+        this.cancelTokenTimers(tokenId);
+    }
+
+    get tokenCount() {
+        return this._tokenIndex.size;
+    }
+
+    *tokenEntries(): IterableIterator<[string, FsmTokenConfiguration]> {
+        for (const tokenId of Array.from(this._tokenIndex.tokenIds())) {
+            const record = this._tokenStore.get(tokenId);
+            if (record) {
+                yield [tokenId, this.toTokenConfiguration(tokenId, record)];
+            }
+        }
+    }
+
+    getTokensInState(state: FsmState | number | TStateName, includeChildStates = true): string[] {
+        const stateObj = (state instanceof FsmState) ? state : this.getState(state);
+        if (!stateObj) {
+            throw new Error(`Invalid action: unknown state ${state}[${this._name}]`);
+        }
+        // a token in a nested state is also in all of its ancestors
+        const states = includeChildStates ? [stateObj, ...this.states.filter(otherState => otherState.isDescendantOf(stateObj))] : [stateObj];
+        const tokenIds = new Set<string>();
+        states.forEach(indexedState => this._tokenIndex.getTokenIds(indexedState.stateId).forEach(tokenId => tokenIds.add(tokenId)));
+        return Array.from(tokenIds);
+    }
+
+    countTokensByState(): Map<FsmState, number> {
+        const counts = new Map<FsmState, number>();
+        this._tokenIndex.countByState().forEach((count, stateId) => {
+            const state = this._states.get(stateId);
+            state && counts.set(state, count);
+        });
+        return counts;
+    }
+
+    get tokenTimeToLive() {
+        return this._tokenExpiry.timeToLive;
+    }
+
+    set tokenTimeToLive(timeToLive: number) {
+        const wasEnabled = this._tokenExpiry.isEnabled;
+        this._tokenExpiry.timeToLive = timeToLive;
+        if (wasEnabled !== this._tokenExpiry.isEnabled) {
+            this.rebuildTokenExpiry();
+            return;
+        }
+        this.cancelTokenExpiry();
+        this.scheduleTokenExpiry();
+    }
+
+    get tokenIdleTimeout() {
+        return this._tokenExpiry.idleTimeout;
+    }
+
+    set tokenIdleTimeout(idleTimeout: number) {
+        const wasEnabled = this._tokenExpiry.isEnabled;
+        this._tokenExpiry.idleTimeout = idleTimeout;
+        if (wasEnabled !== this._tokenExpiry.isEnabled) {
+            this.rebuildTokenExpiry();
+            return;
+        }
+        this.cancelTokenExpiry();
+        this.scheduleTokenExpiry();
+    }
+
+    expireTokenInstances(): number {
+        const expiredTokens = this._tokenExpiry.getExpired(this._scheduler.now());
+        expiredTokens.forEach(([tokenId, reason]) => {
+            const record = this._tokenStore.get(tokenId);
+            const configuration = record ? this.toTokenConfiguration(tokenId, record) : null;
+            this.deleteTokenRecord(tokenId);
+            this._listener?.emit(TokenListenerEvent.onTokenExpired, tokenId, configuration, reason);
+        });
+        this.cancelTokenExpiry();
+        this.scheduleTokenExpiry();
+        return expiredTokens.length;
+    }
+
+    private scheduleTokenExpiry() {
+        const dueTime = this._tokenExpiry.nextDueTime();
+        // a single sweep timer for the earliest deadline, the sweep schedules the next one
+        if (dueTime === null || (this._expiryTimer && this._expiryTimer[1] <= dueTime)) {
+            return;
+        }
+        this.cancelTokenExpiry();
+        const timerId = this._scheduler.schedule(() => {
+            this._expiryTimer = null;
+            this.expireTokenInstances();
+        }, Math.max(0, dueTime - this._scheduler.now()));
+        this._expiryTimer = [timerId, dueTime];
+    }
+
+    private cancelTokenExpiry() {
+        if (this._expiryTimer) {
+            this._scheduler.cancel(this._expiryTimer[0]);
+            this._expiryTimer = null;
+        }
+    }
+
+    createTokenInstance(tokenId: string, reset: boolean = false, fsmRegionName?: string | string[]): FsmState {
+        if (!tokenId?.trim()) {
             throw new Error('Invalid action: invalid tokenId');
         }
-        let token = this._tokenInstances.get(tokenId) || null;
-        if (!token) {
+        if (!reset && this._tokenStore.has(tokenId)) {
+            throw new Error(`Invalid action: token instance ${tokenId} exists`);
+        }
+
+        const { configuration, entryStates } = this.getInitialConfiguration(tokenId, fsmRegionName);
+        const token = configuration.primaryState;
+        const previousRecord = this._tokenStore.get(tokenId);
+        let context = this._contextFactory ? this._contextFactory(tokenId) : undefined;
+        const record = this.toTokenRecord(configuration, context);
+        this.setTokenRecord(tokenId, record, true);
+        try {
+            entryStates.forEach(state => {
+                context = FiniteStateMachine.getUpdatedContext(state.executeEntry(null, context), context);
+            });
+            if (context !== record.context) {
+                this.setTokenRecord(tokenId, { ...record, context });
+            }
+        } catch (error) {
+            previousRecord ? this.setTokenRecord(tokenId, previousRecord) : this.deleteTokenRecord(tokenId);
+            this._listener?.emit(TokenListenerEvent.onTokenInvalidOutputResult, tokenId, token, null);
+            throw error;
+        }
+        this.restartTokenTimers(tokenId, configuration);
+
+        this._listener?.emit(TokenListenerEvent.onTokenCreated, tokenId, token, configuration);
+        for (const [regionName, state] of configuration.entries()) {
+            if (state.isFinalState()) {
+                this._listener?.emit(TokenListenerEvent.onTokenEnterFinalState, tokenId, state, null, regionName);
+            }
+        }
+        if (configuration.isFinalState()) {
+            this._listener?.emit(TokenListenerEvent.onTokenFinal, tokenId, configuration);
+        }
+        return token;
+    }
+
+    private getInitialConfiguration(tokenId: string, fsmRegionName?: string | string[]): { configuration: FsmTokenConfiguration, entryStates: FsmState[] } {
+        const fsmRegionNames = Array.isArray(fsmRegionName) ? fsmRegionName : (fsmRegionName ? [fsmRegionName] : this.getDefaultRegionNames());
+        const regionStates = new Map<string, FsmState>();
+        const entryStates: FsmState[] = [];
+        fsmRegionNames.forEach(regionName => {
+            const initialState = this.getInitialState(regionName);
+            if (!initialState) {
+                throw new Error(`No initial state for ${regionName}`);
+            }
+            regionStates.set(regionName, initialState.getInitialLeafState());
+            entryStates.push(...initialState.getAncestors().reverse(), ...initialState.getInitialLeafPath());
+        });
+        return { configuration: new FsmTokenConfiguration(tokenId, regionStates), entryStates };
+    }
+
+    private getDefaultRegionNames(): string[] {
+        // a new token enters every region, the default region first so it stays the primary state;
+        // the initial state picked for the default region by addState is skipped once a named region has claimed it
+        const regionNames = this.regionNames.filter(regionName => regionName !== this._name);
+        const defaultInitialState = this._initialStates.get(this._name);
+        if (regionNames.length === 0 || defaultInitialState?.initialStateRegionName === this._name) {
+            regionNames.unshift(this._name);
+        }
+        return regionNames;
+    }
+
+    getTokenInstance(tokenId: string, autoCreate = true, fsmRegionName?: string): FsmState {
+        const configuration = this.getTokenConfiguration(tokenId, autoCreate, fsmRegionName);
+        return (fsmRegionName && configuration.getState(fsmRegionName)) || configuration.primaryState;
+    }
+
+    getTokenConfiguration(tokenId: string, autoCreate = true, fsmRegionName?: string | string[]): FsmTokenConfiguration {
+        if (!tokenId?.trim()) {
+            this._listener?.emit(TokenListenerEvent.onErrorTokenIdNotFound, tokenId);
+            throw new Error('Invalid action: invalid tokenId');
+        }
+        let record = this._tokenStore.get(tokenId);
+        if (!record) {
             if (!autoCreate) {
                 this._listener?.emit(TokenListenerEvent.onErrorTokenIdNotFound, tokenId);
                 throw new Error(`Token instance ${tokenId} not exists`);
             }
-            token = this.createTokenInstance(tokenId, false, fsmRegionName);
+            this.createTokenInstance(tokenId, false, fsmRegionName);
+            record = this._tokenStore.get(tokenId) as FsmTokenRecord;
         }
-        return token;
+        return this.toTokenConfiguration(tokenId, record);
     }
 
-    updateTokenToNextState(tokenId: string, onEvent: FsmEvent | number | string | null, altStateTable?: NonDeterministicStateTable): FsmState {
+    createNonDeterministicTokenInstance(tokenId: string, reset: boolean = false, fsmRegionName?: string | string[]): FsmState[] {
+        this.createTokenInstance(tokenId, reset, fsmRegionName);
+        this.cancelTokenTimers(tokenId);
+        const record = this._tokenStore.get(tokenId) as FsmTokenRecord;
+        const stateSets: { [fsmRegionName: string]: number[] } = {};
+        for (const [regionName, stateId] of Object.entries(record.states)) {
+            stateSets[regionName] = (this._states.get(stateId) as FsmState).getEpsilonClosure().map(state => state.stateId);
+        }
+        this.setTokenRecord(tokenId, { ...record, stateSets });
+        return this.getTokenStateSet(tokenId);
+    }
+
+    getTokenStateSet(tokenId: string, fsmRegionName?: string): FsmState[] {
+        const configuration = this.getTokenConfiguration(tokenId, false);
+        const regionName = fsmRegionName || configuration.primaryRegionName;
+        const record = this._tokenStore.get(tokenId) as FsmTokenRecord;
+        const stateIds = record.stateSets?.[regionName] || ((regionName in record.states) ? [record.states[regionName]] : []);
+        return stateIds.map(stateId => {
+            const state = this._states.get(stateId);
+            if (!state) {
+                this._listener?.emit(TokenListenerEvent.onErrorStateNotFound, tokenId, stateId, regionName);
+                throw new Error(`Token instance ${tokenId} refers to unknown state ${stateId}@${regionName}[${this._name}]`);
+            }
+            return state;
+        });
+    }
+
+    updateTokenToNextStates<TPayload = unknown>(tokenId: string, onEvent: FsmEvent<TPayload> | number | TEventName | null, payload?: TPayload): FsmState[] {
+        if (this._tokenQueues.has(tokenId)) {
+            throw new Error(`Invalid action: token instance ${tokenId} has pending async transitions`);
+        }
         if (onEvent == null) {
             throw new Error('Invalid action: missing onEvent');
         }
-        const tokenInstance = this.getTokenInstance(tokenId);
+        const configuration = this.getTokenConfiguration(tokenId, false);
         const event = onEvent instanceof FsmEvent ? onEvent : this.getEvent(onEvent);
         if (!event) {
-            this._listener?.emit(TokenListenerEvent.onErrorEventNotFound, tokenId, tokenInstance, onEvent);
+            this._listener?.emit(TokenListenerEvent.onErrorEventNotFound, tokenId, configuration.primaryState, onEvent, payload);
             throw new Error('Invalid action: invalid onEvent');
         }
+        const input = event.withPayload(payload);
 
-        let tableType = '';
-        let nextState = this.nextState(tokenInstance, event);
-        if (nextState && !nextState.isDeterministic()) {
-            tableType = 'ND';
-            if (!altStateTable) {
-                this._listener?.emit(TokenListenerEvent.onErrorNdStateTableNotFound, tokenId, tokenInstance, onEvent, nextState);
-                throw new Error(`Invalid${tableType}StateTable:- tokenId:${tokenId} currentState:${tokenInstance.stateName}[${tokenInstance.stateId}] onEvent:${onEvent}`);
+        // the token follows every possible transition, outputs and entry/exit actions are not executed
+        const previousRecord = this._tokenStore.get(tokenId) as FsmTokenRecord;
+        const nextRecord: FsmTokenRecord = { ...previousRecord, states: { ...previousRecord.states }, stateSets: {} };
+        const changes: Array<[string, FsmState[], FsmState[]]> = [];
+        configuration.regionNames.forEach(fsmRegionName => {
+            const currentStates = this.getTokenStateSet(tokenId, fsmRegionName);
+            const nextStates = FsmDeterminizer.getNextStates(currentStates, event, tokenId, payload, previousRecord.context);
+            if (nextStates.length > 0) {
+                nextRecord.states[fsmRegionName] = nextStates[0].stateId;
+                changes.push([fsmRegionName, currentStates, nextStates]);
             }
-            this._listener?.emit(TokenListenerEvent.onTokenTransitNonDeterministic, tokenId, tokenInstance, event, nextState);
-            nextState = altStateTable(tokenId, tokenInstance, event);
+            (nextRecord.stateSets as { [fsmRegionName: string]: number[] })[fsmRegionName] = ((nextStates.length > 0) ? nextStates : currentStates).map(state => state.stateId);
+        });
+
+        if (changes.length === 0) {
+            this._listener?.emit(TokenListenerEvent.onTokenInvalidStateChange, tokenId, configuration.primaryState, input);
+            throw new Error(`InvalidStateChange:- tokenId:${tokenId} currentStates:${this.getTokenStateSet(tokenId).map(state => `${state.stateName}[${state.stateId}]`).join(',')} onEvent:${onEvent}`);
         }
-        if (!nextState) {
-            this._listener?.emit(TokenListenerEvent.onTokenInvalidStateChange, tokenId, tokenInstance, event);
-            throw new Error(`Invalid${tableType}StateChange:- tokenId:${tokenId} currentState:${tokenInstance.stateName}[${tokenInstance.stateId}] onEvent:${onEvent}`);
+
+        this.setTokenRecord(tokenId, nextRecord);
+        this.cancelTokenTimers(tokenId);
+        changes.forEach(([fsmRegionName, currentStates, nextStates]) => {
+            this._listener?.emit(TokenListenerEvent.onTokenTransitStateSet, tokenId, currentStates, input, nextStates, fsmRegionName);
+        });
+        return this.getTokenStateSet(tokenId);
+    }
+
+    private toTokenConfiguration(tokenId: string, record: FsmTokenRecord): FsmTokenConfiguration {
+        const regionStates = new Map<string, FsmState>();
+        for (const [fsmRegionName, stateId] of Object.entries(record.states || {})) {
+            const state = this._states.get(stateId);
+            if (!state) {
+                this._listener?.emit(TokenListenerEvent.onErrorStateNotFound, tokenId, stateId, fsmRegionName);
+                throw new Error(`Token instance ${tokenId} refers to unknown state ${stateId}@${fsmRegionName}[${this._name}]`);
+            }
+            regionStates.set(fsmRegionName, state);
         }
+        return new FsmTokenConfiguration(tokenId, regionStates);
+    }
 
+    private toTokenRecord(configuration: FsmTokenConfiguration, context?: TContext): FsmTokenRecord {
+        const states: { [fsmRegionName: string]: number } = {};
+        for (const [fsmRegionName, state] of configuration.entries()) {
+            states[fsmRegionName] = state.stateId;
+        }
+        return (context !== undefined) ? { states, context } : { states };
+    }
+
+    getTokenContext(tokenId: string): TContext | undefined {
+        this.getTokenConfiguration(tokenId, false);
+        return (this._tokenStore.get(tokenId) as FsmTokenRecord).context as TContext | undefined;
+    }
+
+    private static getUpdatedContext<TContext>(result: FsmActionResult<TContext>, context: TContext): TContext {
+        // the returned promise of an async output cannot be awaited on the synchronous path
+        return (result === undefined || result instanceof Promise) ? context : result as TContext;
+    }
+
+    private commitTokenContext(tokenId: string, step: FsmTokenStep, context: TContext | undefined) {
+        if (context !== step.previousRecord.context) {
+            step.nextRecord.context = context;
+            this.setTokenRecord(tokenId, step.nextRecord);
+        }
+    }
+
+    updateTokenToNextState<TPayload = unknown>(tokenId: string, onEvent: FsmEvent<TPayload> | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: TPayload): FsmState {
+        if (this._tokenQueues.has(tokenId)) {
+            throw new Error(`Invalid action: token instance ${tokenId} has pending async transitions`);
+        }
+        if (this._raisedEvents.has(tokenId)) {
+            throw new Error(`Invalid action: token instance ${tokenId} is in a run-to-completion transition, raise the event instead`);
+        }
+        if (!this._runToCompletion) {
+            return this.processTokenEvent(tokenId, onEvent, altStateTable, payload);
+        }
+        this._raisedEvents.set(tokenId, { events: [], count: 0 });
         try {
-            this._tokenInstances.set(tokenId, nextState);
-            tokenInstance.executeOutput(event);
-            if (tokenInstance.equals(nextState)) {
-                this._listener?.emit(TokenListenerEvent.onTokenTransitSelf, tokenId, tokenInstance, event, nextState);
-            } else {
-                this._listener?.emit(nextState.isFinalState() ? TokenListenerEvent.onTokenTransitFinalState : TokenListenerEvent.onTokenTransitState, tokenId, tokenInstance, event, nextState);
+            let nextState = this.processTokenEvent(tokenId, onEvent, altStateTable, payload);
+            for (let raisedEvent = this.nextRaisedEvent(tokenId); raisedEvent; raisedEvent = this.nextRaisedEvent(tokenId)) {
+                nextState = this.processTokenEvent(tokenId, raisedEvent[0] as FsmEvent | number | TEventName, altStateTable, raisedEvent[1], true);
+            }
+            return nextState;
+        } finally {
+            // a failed transition leaves the committed ones in place, the events still queued are dropped
+            this._raisedEvents.delete(tokenId);
+        }
+    }
+
+    private processTokenEvent(tokenId: string, onEvent: FsmEvent | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: unknown, isRaised = false): FsmState {
+        const previousRecord = this.getTokenRecordForHistory(tokenId);
+        try {
+            const nextState = this.transitToken(tokenId, onEvent, altStateTable, payload);
+            this.recordTokenHistory(tokenId, onEvent, previousRecord, undefined, isRaised);
+            return nextState;
+        } catch (error) {
+            this.recordTokenHistory(tokenId, onEvent, previousRecord, error, isRaised);
+            throw error;
+        }
+    }
+
+    private getRaiseFunction(tokenId: string): FsmRaiseFunction | undefined {
+        const raisedEvents = this._raisedEvents.get(tokenId);
+        if (!raisedEvents) {
+            return undefined;
+        }
+        return (onEvent, payload) => {
+            if (this._raisedEvents.get(tokenId) !== raisedEvents) {
+                throw new Error(`Invalid action: cannot raise ${onEvent} after the transition of token instance ${tokenId} has completed`);
+            }
+            // the limit stops events that keep raising each other
+            if (++raisedEvents.count > this._raisedEventLimit) {
+                throw new Error(`Invalid action: token instance ${tokenId} raised more than ${this._raisedEventLimit} events in one run`);
+            }
+            raisedEvents.events.push([onEvent, payload]);
+        };
+    }
+
+    private nextRaisedEvent(tokenId: string): [FsmEvent | number | string, unknown] | undefined {
+        return this._raisedEvents.get(tokenId)?.events.shift();
+    }
+
+    private transitToken(tokenId: string, onEvent: FsmEvent | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: unknown): FsmState {
+        const step = this.resolveTokenStep(tokenId, onEvent, altStateTable, payload);
+        if (step.transitions.length === 0) {
+            return step.configuration.primaryState;
+        }
+        step.transitions.forEach((transition, index) => {
+            this._interceptors.forEach(interceptor => {
+                const result = interceptor(tokenId, transition.currentState, step.event, transition.nextState, transition.fsmRegionName);
+                if (result instanceof Promise) {
+                    result.catch(() => undefined);
+                    throw new Error(`Invalid action: cannot await interceptor of token instance ${tokenId}, use updateTokenToNextStateAsync`);
+                }
+                transition = this.applyInterception(tokenId, step, index, result);
+            });
+        });
+        let currentTransition = step.transitions[0];
+        let context = step.previousRecord.context as TContext | undefined;
+        try {
+            this.setTokenRecord(tokenId, step.nextRecord);
+            step.transitions.forEach(transition => {
+                currentTransition = transition;
+                this.getTransitionActions(tokenId, transition, step.event).forEach(action => {
+                    context = FiniteStateMachine.getUpdatedContext(action(context), context);
+                });
+            });
+            this.commitTokenContext(tokenId, step, context);
+            this.updateTokenTimers(tokenId, step);
+            this.emitTokenStep(tokenId, step);
+        } catch (error) {
+            this.rollbackTokenStep(tokenId, step, currentTransition);
+            throw error;
+        }
+        return step.transitions[0].nextState;
+    }
+
+    updateTokenToNextStateAsync<TPayload = unknown>(tokenId: string, onEvent: FsmEvent<TPayload> | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: TPayload): Promise<FsmState> {
+        const previousTask = this._tokenQueues.get(tokenId) || Promise.resolve();
+        const currentTask = previousTask.then(async () => {
+            try {
+                return await this.runTokenEventsAsync(tokenId, onEvent, altStateTable, payload);
+            } finally {
+                if (this._tokenQueues.get(tokenId) === queuedTask) {
+                    this._tokenQueues.delete(tokenId);
+                }
+            }
+        });
+        const queuedTask = currentTask.then(() => undefined, () => undefined);
+        this._tokenQueues.set(tokenId, queuedTask);
+        return currentTask;
+    }
+
+    private async runTokenEventsAsync(tokenId: string, onEvent: FsmEvent | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: unknown): Promise<FsmState> {
+        if (!this._runToCompletion) {
+            return this.transitTokenAsync(tokenId, onEvent, altStateTable, payload);
+        }
+        this._raisedEvents.set(tokenId, { events: [], count: 0 });
+        try {
+            let nextState = await this.transitTokenAsync(tokenId, onEvent, altStateTable, payload);
+            for (let raisedEvent = this.nextRaisedEvent(tokenId); raisedEvent; raisedEvent = this.nextRaisedEvent(tokenId)) {
+                nextState = await this.transitTokenAsync(tokenId, raisedEvent[0] as FsmEvent | number | TEventName, altStateTable, raisedEvent[1], true);
+            }
+            return nextState;
+        } finally {
+            this._raisedEvents.delete(tokenId);
+        }
+    }
+
+    private async transitTokenAsync(tokenId: string, onEvent: FsmEvent | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: unknown, isRaised = false): Promise<FsmState> {
+        const previousRecord = this.getTokenRecordForHistory(tokenId);
+        try {
+            const step = this.resolveTokenStep(tokenId, onEvent, altStateTable, payload);
+            if (step.transitions.length === 0) {
+                this.recordTokenHistory(tokenId, onEvent, previousRecord, undefined, isRaised);
+                return step.configuration.primaryState;
+            }
+            for (let index = 0; index < step.transitions.length; index++) {
+                for (const interceptor of this._interceptors) {
+                    const transition = step.transitions[index];
+                    this.applyInterception(tokenId, step, index, await interceptor(tokenId, transition.currentState, step.event, transition.nextState, transition.fsmRegionName));
+                }
+            }
+            let currentTransition = step.transitions[0];
+            let context = step.previousRecord.context as TContext | undefined;
+            try {
+                this.setTokenRecord(tokenId, step.nextRecord);
+                for (const transition of step.transitions) {
+                    currentTransition = transition;
+                    for (const action of this.getTransitionActions(tokenId, transition, step.event)) {
+                        context = FiniteStateMachine.getUpdatedContext(await action(context), context);
+                    }
+                }
+                this.commitTokenContext(tokenId, step, context);
+                this.updateTokenTimers(tokenId, step);
+                this.emitTokenStep(tokenId, step);
+            } catch (error) {
+                this.rollbackTokenStep(tokenId, step, currentTransition);
+                throw error;
             }
+            this.recordTokenHistory(tokenId, onEvent, previousRecord, undefined, isRaised);
+            return step.transitions[0].nextState;
         } catch (error) {
-            this._tokenInstances.set(tokenId, tokenInstance);
-            this._listener?.emit(TokenListenerEvent.onTokenInvalidOutputResult, tokenId, tokenInstance, event);
+            this.recordTokenHistory(tokenId, onEvent, previousRecord, error, isRaised);
             throw error;
         }
-        return nextState;
+    }
+
+    get tokenHistoryLimit() {
+        return this._tokenHistory.limit;
+    }
+
+    set tokenHistoryLimit(limit: number) {
+        this._tokenHistory.limit = limit;
+    }
+
+    getTokenHistory(tokenId: string): FsmTokenHistoryEntry[] {
+        return this._tokenHistory.get(tokenId);
+    }
+
+    clearTokenHistory(tokenId?: string) {
+        tokenId ? this._tokenHistory.delete(tokenId) : this._tokenHistory.clear();
+    }
+
+    exportTokenHistory(tokenId?: string): FsmTokenHistoryEntry[] {
+        return this._tokenHistory.toJSON(tokenId);
+    }
+
+    replayToken(tokenId: string, events: Array<FsmEvent | number | TEventName> | FsmTokenHistoryEntry[], fsmRegionName?: string | string[], runActions: boolean = false): FsmState {
+        const previousRecord = this._tokenStore.get(tokenId);
+        const previousHistory = this._tokenHistory.get(tokenId);
+        this._tokenHistory.delete(tokenId);
+        try {
+            return runActions ? this.replayTokenEvents(tokenId, events, fsmRegionName) : this.rebuildTokenState(tokenId, events, fsmRegionName, previousRecord);
+        } catch (error) {
+            // a failed replay leaves the token and its history as they were
+            if (previousRecord) {
+                this.setTokenRecord(tokenId, previousRecord);
+                previousRecord.stateSets ? this.cancelTokenTimers(tokenId) : this.restartTokenTimers(tokenId, this.toTokenConfiguration(tokenId, previousRecord));
+            } else if (this._tokenStore.has(tokenId)) {
+                this.deleteTokenRecord(tokenId);
+            }
+            this._tokenHistory.set(tokenId, previousHistory);
+            throw error;
+        }
+    }
+
+    private replayTokenEvents(tokenId: string, events: Array<FsmEvent | number | TEventName | FsmTokenHistoryEntry>, fsmRegionName?: string | string[]): FsmState {
+        const entries = events.map(FiniteStateMachine.toTokenHistoryEntry);
+        const firstEntry = entries.find(entry => entry);
+        if (firstEntry && Object.keys(firstEntry.from).length > 0) {
+            // a log trimmed by the retention limit starts from the states recorded in its first entry, the actions rebuild a new context
+            const context = this._contextFactory?.(tokenId);
+            this.restoreTokens({ version: FSM_TOKEN_SNAPSHOT_VERSION, fsmName: this._name, tokens: { [tokenId]: (context !== undefined) ? { states: firstEntry.from, context } : { states: firstEntry.from } } }, true);
+        } else {
+            this.createTokenInstance(tokenId, true, fsmRegionName);
+        }
+
+        let tokenInstance = this.getTokenInstance(tokenId, false);
+        events.forEach((event, index) => {
+            const entry = entries[index];
+            if (!entry) {
+                tokenInstance = this.updateTokenToNextState(tokenId, event as FsmEvent | number | TEventName);
+            } else if (entry.success && !entry.raised) {
+                // raised events are raised again by the actions, recorded target states resolve the non-deterministic choices made at the time
+                const altStateTable: NonDeterministicStateTable = (_, currentState) => {
+                    const regionName = Object.keys(entry.from).find(fsmRegionName => currentState.equals(entry.from[fsmRegionName]));
+                    return regionName ? this.getState(entry.to[regionName]) : null;
+                };
+                tokenInstance = this.updateTokenToNextState(tokenId, entry.event as number | TEventName | null, altStateTable);
+            }
+        });
+        return tokenInstance;
+    }
+
+    private rebuildTokenState(tokenId: string, events: Array<FsmEvent | number | TEventName | FsmTokenHistoryEntry>, fsmRegionName: string | string[] | undefined, previousRecord: FsmTokenRecord | null): FsmState {
+        // no action runs, so the context cannot be rebuilt and an existing token keeps its own
+        const context = previousRecord ? previousRecord.context : this._contextFactory?.(tokenId);
+        const entries = events.map(FiniteStateMachine.toTokenHistoryEntry);
+        const firstEntry = entries.find(entry => entry);
+        const states = (firstEntry && Object.keys(firstEntry.from).length > 0) ? { ...firstEntry.from } : this.toTokenRecord(this.getInitialConfiguration(tokenId, fsmRegionName).configuration).states;
+        this.toTokenConfiguration(tokenId, { states });
+        this.setTokenRecord(tokenId, (context !== undefined) ? { states, context } : { states }, true);
+
+        events.forEach((event, index) => {
+            const entry = entries[index];
+            const historyRecord = this.getTokenRecordForHistory(tokenId);
+            if (!entry) {
+                const step = this.resolveTokenStep(tokenId, event as FsmEvent | number | TEventName);
+                this.setTokenRecord(tokenId, step.nextRecord);
+                this.recordTokenHistory(tokenId, event as FsmEvent | number | TEventName, historyRecord);
+            } else if (entry.success) {
+                // the recorded states already hold the outcome of guards, interceptors, raised events and non-deterministic choices
+                const record = this._tokenStore.get(tokenId) as FsmTokenRecord;
+                if (Object.entries(entry.from).some(([regionName, stateId]) => record.states[regionName] !== stateId)) {
+                    throw new Error(`Invalid action: history entry ${entry.event} of token instance ${tokenId} does not start from its current states[${this._name}]`);
+                }
+                const nextRecord = { ...record, states: { ...record.states, ...entry.to } };
+                this.toTokenConfiguration(tokenId, nextRecord);
+                this.setTokenRecord(tokenId, nextRecord);
+                this.recordTokenHistory(tokenId, entry.event as number | TEventName | null, historyRecord, undefined, entry.raised);
+            }
+        });
+        const record = this._tokenStore.get(tokenId) as FsmTokenRecord;
+        const configuration = this.toTokenConfiguration(tokenId, record);
+        this.restartTokenTimers(tokenId, configuration);
+        return configuration.primaryState;
+    }
+
+    private static toTokenHistoryEntry(event: FsmEvent | number | string | FsmTokenHistoryEntry): FsmTokenHistoryEntry | null {
+        return (typeof event === "object" && !(event instanceof FsmEvent)) ? event : null;
+    }
+
+    private getTokenRecordForHistory(tokenId: string): FsmTokenRecord | null {
+        if (this._tokenHistory.limit <= 0 || !tokenId?.trim()) {
+            return null;
+        }
+        return this._tokenStore.get(tokenId);
+    }
+
+    private recordTokenHistory(tokenId: string, onEvent: FsmEvent | number | TEventName | null, previousRecord: FsmTokenRecord | null, error?: unknown, isRaised = false) {
+        if (this._tokenHistory.limit <= 0) {
+            return;
+        }
+        const nextRecord = this._tokenStore.get(tokenId);
+        const event = (onEvent instanceof FsmEvent) ? onEvent : (onEvent != null) ? this.getEvent(onEvent) : null;
+        const entry: FsmTokenHistoryEntry = {
+            tokenId,
+            from: { ...previousRecord?.states },
+            event: event ? event.eventId : onEvent as number | string | null,
+            to: { ...nextRecord?.states },
+            timestamp: this._scheduler.now(),
+            success: !error,
+        };
+        if (error) {
+            entry.error = (error instanceof Error) ? error.message : String(error);
+        }
+        if (isRaised) {
+            entry.raised = true;
+        }
+        this._tokenHistory.record(entry);
+    }
+
+    private resolveTokenStep(tokenId: string, onEvent: FsmEvent | number | TEventName | null, altStateTable?: NonDeterministicStateTable, payload?: unknown): FsmTokenStep {
+        if (onEvent == null) {
+            throw new Error('Invalid action: missing onEvent');
+        }
+        const configuration = this.getTokenConfiguration(tokenId);
+        const tokenInstance = configuration.primaryState;
+        const previousRecord = this._tokenStore.get(tokenId) as FsmTokenRecord;
+        if (previousRecord.stateSets) {
+            throw new Error(`Invalid action: token instance ${tokenId} tracks a set of states, use updateTokenToNextStates`);
+        }
+        const event = onEvent instanceof FsmEvent ? onEvent : this.getEvent(onEvent);
+        if (!event) {
+            this._listener?.emit(TokenListenerEvent.onErrorEventNotFound, tokenId, tokenInstance, onEvent, payload);
+            throw new Error('Invalid action: invalid onEvent');
+        }
+        // transitions are looked up with the defined event, actions and listeners get the one carrying the payload
+        const input = event.withPayload(payload);
+
+        // the event is delivered to every region whose active state can handle it
+        const transitions: FsmTokenTransition[] = [];
+        let isGuardRejected = false;
+        let isIgnored = false;
+        for (const [fsmRegionName, currentState] of configuration.entries()) {
+            const transition = currentState.findTransition(tokenId, event, payload, previousRecord.context) || this.getDefaultTransition(currentState, event);
+            if (transition) {
+                transitions.push(this.resolveRegionTransition(tokenId, fsmRegionName, currentState, event, transition, altStateTable, payload));
+            } else {
+                isGuardRejected = isGuardRejected || currentState.getEventHandlingStates().some(state => state.isGuardedTransition(event));
+                isIgnored = isIgnored || currentState.getEventHandling(event) === 'ignored';
+            }
+        }
+
+        if (transitions.length === 0) {
+            if (isIgnored) {
+                this._listener?.emit(TokenListenerEvent.onTokenEventIgnored, tokenId, tokenInstance, input, payload);
+                return { event: input, configuration, previousRecord, nextRecord: previousRecord, transitions };
+            }
+            if (isGuardRejected) {
+                this._listener?.emit(TokenListenerEvent.onTokenGuardRejected, tokenId, tokenInstance, input, payload);
+                throw new Error(`InvalidGuardedStateChange:- tokenId:${tokenId} currentState:${tokenInstance.stateName}[${tokenInstance.stateId}] onEvent:${onEvent}`);
+            }
+            this._listener?.emit(TokenListenerEvent.onTokenInvalidStateChange, tokenId, tokenInstance, input);
+            throw new Error(`InvalidStateChange:- tokenId:${tokenId} currentState:${tokenInstance.stateName}[${tokenInstance.stateId}] onEvent:${onEvent}`);
+        }
+
+        const nextRecord: FsmTokenRecord = { ...previousRecord, states: { ...previousRecord.states } };
+        transitions.forEach(transition => {
+            nextRecord.states[transition.fsmRegionName] = transition.nextState.stateId;
+        });
+        return { event: input, configuration, previousRecord, nextRecord, transitions };
+    }
+
+    private resolveRegionTransition(tokenId: string, fsmRegionName: string, currentState: FsmState, event: FsmEvent, transition: FsmTransition, altStateTable?: NonDeterministicStateTable, payload?: unknown): FsmTokenTransition {
+        let nextState: FsmState | null = transition.nextState;
+        let output = transition.output;
+        if (!nextState.isDeterministic() || (!transition.guard && transition.fromState.hasMultipleTargets(event))) {
+            const input = event.withPayload(payload);
+            if (!altStateTable) {
+                this._listener?.emit(TokenListenerEvent.onErrorNdStateTableNotFound, tokenId, currentState, input, nextState, fsmRegionName);
+                throw new Error(`InvalidNDStateTable:- tokenId:${tokenId} currentState:${currentState.stateName}[${currentState.stateId}] onEvent:${event}`);
+            }
+            this._listener?.emit(TokenListenerEvent.onTokenTransitNonDeterministic, tokenId, currentState, input, nextState, fsmRegionName);
+            nextState = altStateTable(tokenId, currentState, input, payload);
+            if (!nextState) {
+                this._listener?.emit(TokenListenerEvent.onTokenInvalidStateChange, tokenId, currentState, input, fsmRegionName);
+                throw new Error(`InvalidNDStateChange:- tokenId:${tokenId} currentState:${currentState.stateName}[${currentState.stateId}] onEvent:${event}`);
+            }
+            // the chosen target runs the output of its own transition, when it has one
+            const chosenState = nextState;
+            const chosenTransition = transition.guard ? null : transition.fromState.getTransitionsOnEvent(event).find(candidate => !candidate.guard && candidate.nextState.equals(chosenState));
+            output = chosenTransition ? chosenTransition.output : output;
+        }
+
+        return this.toTokenTransition(fsmRegionName, currentState, transition.fromState, nextState, output);
+    }
+
+    private toTokenTransition(fsmRegionName: string, currentState: FsmState, sourceState: FsmState, targetState: FsmState, output: StoredOutputFunction | null): FsmTokenTransition {
+        const isInternalTransition = sourceState.equals(targetState) && !this._reenterOnSelfTransition;
+        return {
+            fsmRegionName,
+            currentState,
+            sourceState,
+            targetState,
+            nextState: isInternalTransition ? currentState : targetState.getInitialLeafState(),
+            output,
+        };
+    }
+
+    private applyInterception(tokenId: string, step: FsmTokenStep, index: number, result: FsmInterceptorResult<TStateName>): FsmTokenTransition {
+        const transition = step.transitions[index];
+        if (!result || result.action === FsmInterceptorAction.allow) {
+            return transition;
+        }
+        const { fsmRegionName, currentState, nextState } = transition;
+        if (result.action === FsmInterceptorAction.veto) {
+            this._listener?.emit(TokenListenerEvent.onTokenTransitVetoed, tokenId, currentState, step.event, nextState, result.reason, fsmRegionName);
+            throw new Error(`VetoedStateChange:- tokenId:${tokenId} currentState:${currentState.stateName}[${currentState.stateId}] onEvent:${step.event} reason:${result.reason}`);
+        }
+
+        // a redirected transition keeps its output, the exit and entry actions follow the new target
+        const redirectState = (result.state instanceof FsmState) ? result.state : (typeof result.state === "undefined") ? null : this.getState(result.state);
+        if (!redirectState || this._states.get(redirectState.stateId) !== redirectState) {
+            throw new Error(`Invalid action: cannot redirect token instance ${tokenId} to unknown state ${result.state}[${this._name}]`);
+        }
+        // a redirect back to where the token is counts as a self transition
+        if (!this.allowSelfTransition && (redirectState.equals(currentState) || redirectState.equals(transition.sourceState))) {
+            throw new Error(`Invalid action: self transition disabled for ${currentState}[${this._name}]`);
+        }
+        const redirectedTransition = this.toTokenTransition(fsmRegionName, currentState, transition.sourceState, redirectState, transition.output);
+        step.transitions[index] = redirectedTransition;
+        step.nextRecord.states[fsmRegionName] = redirectedTransition.nextState.stateId;
+        return redirectedTransition;
+    }
+
+    private getExitEntryStates(transition: FsmTokenTransition): { exitStates: FsmState[], entryStates: FsmState[] } {
+        const { currentState, sourceState, targetState } = transition;
+        if (sourceState.equals(targetState) && !this._reenterOnSelfTransition) {
+            return { exitStates: [], entryStates: [] };
+        }
+
+        // exit up to and enter down from the closest common proper ancestor of source and target
+        const targetAncestors = targetState.getAncestors();
+        const domainState = sourceState.getAncestors().find(state => targetAncestors.includes(state)) || null;
+        const exitStates = [currentState, ...currentState.getAncestors()];
+        const entryStates = [...targetAncestors.reverse(), ...targetState.getInitialLeafPath()];
+        return {
+            exitStates: exitStates.slice(0, domainState ? exitStates.indexOf(domainState) : exitStates.length),
+            entryStates: entryStates.slice(domainState ? entryStates.indexOf(domainState) + 1 : 0),
+        };
+    }
+
+    private getTransitionActions(tokenId: string, transition: FsmTokenTransition, event: FsmEvent): Array<(context: TContext | undefined) => FsmActionResult<TContext | undefined>> {
+        const { exitStates, entryStates } = this.getExitEntryStates(transition);
+        const raise = this.getRaiseFunction(tokenId);
+        return [
+            ...exitStates.map(state => (context: TContext | undefined) => state.executeExit(event, context, raise)),
+            (context: TContext | undefined) => transition.currentState.executeOutput(event, transition.output, context, raise),
+            ...entryStates.map(state => (context: TContext | undefined) => state.executeEntry(event, context, raise)),
+        ];
+    }
+
+    private emitTokenStep(tokenId: string, step: FsmTokenStep) {
+        const { event } = step;
+        step.transitions.forEach(({ fsmRegionName, currentState, nextState }) => {
+            if (currentState.equals(nextState)) {
+                this._listener?.emit(TokenListenerEvent.onTokenTransitSelf, tokenId, currentState, event, nextState, fsmRegionName);
+            } else {
+                this._listener?.emit(nextState.isFinalState() ? TokenListenerEvent.onTokenTransitFinalState : TokenListenerEvent.onTokenTransitState, tokenId, currentState, event, nextState, fsmRegionName);
+                if (nextState.isFinalState()) {
+                    this._listener?.emit(TokenListenerEvent.onTokenEnterFinalState, tokenId, nextState, event, fsmRegionName);
+                }
+            }
+        });
+
+        const nextConfiguration = this.toTokenConfiguration(tokenId, step.nextRecord);
+        if (nextConfiguration.isFinalState() && !step.configuration.isFinalState()) {
+            this._listener?.emit(TokenListenerEvent.onTokenFinal, tokenId, nextConfiguration, event);
+        }
+    }
+
+    private rollbackTokenStep(tokenId: string, step: FsmTokenStep, failedTransition: FsmTokenTransition) {
+        this.setTokenRecord(tokenId, step.previousRecord);
+        this._listener?.emit(TokenListenerEvent.onTokenInvalidOutputResult, tokenId, failedTransition.currentState, step.event, failedTransition.fsmRegionName);
     }
 
     pruneTokenInstances(ignoreList?: Set<string>): number {
         let nDeleted = 0 | 0;
-        for (const [tokenId, tokenInstance] of this._tokenInstances.entries()) {
-            if (ignoreList?.has(tokenId)) {
+        // only tokens with at least one final state can be completely final
+        const candidateTokenIds = new Set<string>();
+        this.states.filter(state => state.isFinalState()).forEach(state => this._tokenIndex.getTokenIds(state.stateId).forEach(tokenId => candidateTokenIds.add(tokenId)));
+        for (const tokenId of candidateTokenIds) {
+            const record = this._tokenStore.get(tokenId);
+            if (!record || ignoreList?.has(tokenId)) {
                 continue;
             }
-            if (tokenInstance.isFinalState()) {
-                if (this._tokenInstances.delete(tokenId)) {
+            const stateIds = FiniteStateMachine.getTokenRecordStateIds(record);
+            if (stateIds.every(stateId => this._states.get(stateId)?.isFinalState())) {
+                if (this.deleteTokenRecord(tokenId)) {
                     ++nDeleted;
                 }
             }
@@ -395,6 +2000,149 @@ export class FiniteStateMachine {
         return nDeleted;
     }
 
+    getTokenDefinitionVersion(tokenId: string): number | null {
+        // tokens that were never migrated carry no version
+        return this._tokenStore.get(tokenId)?.version ?? null;
+    }
+
+    migrateTokensFrom<TSourceContext>(sourceFsm: FiniteStateMachine<TSourceContext>, options: FsmMigrationOptions = {}): FsmMigrationResult {
+        if ((sourceFsm as object) === this) {
+            throw new Error(`Invalid action: cannot migrate token instances of ${this._name} to itself`);
+        }
+        const isSharedStore = (sourceFsm._tokenStore === this._tokenStore);
+        if (!isSharedStore) {
+            const existingTokens = Array.from(sourceFsm._tokenStore.entries()).filter(([tokenId]) => this._tokenStore.has(tokenId));
+            if (existingTokens.length > 0) {
+                throw new Error(`Invalid action: token instances ${existingTokens.map(([tokenId]) => tokenId).join(', ')} exist`);
+            }
+        }
+        const migrations = new FsmMigrator(sourceFsm, this).plan(options);
+        // the tokens are moved out of the source machine, a shared store is rewritten in place
+        migrations.forEach(migration => {
+            isSharedStore ? sourceFsm.forgetTokenRecord(migration.tokenId) : sourceFsm.deleteTokenRecord(migration.tokenId);
+        });
+        return this.applyTokenMigrations(migrations, sourceFsm._definitionVersion);
+    }
+
+    replaceDefinition(definition: FiniteStateMachine<TContext> | FsmJson | string, options: FsmMigrationOptions = {}): FsmMigrationResult {
+        const definitionFsm = (definition instanceof FiniteStateMachine) ? definition : FiniteStateMachine.fromJSON<TContext>(definition, this._actions);
+        if (definitionFsm === this || definitionFsm.name !== this._name) {
+            throw new Error(`Invalid action: cannot replace definition of ${this._name} with ${definitionFsm.name}`);
+        }
+        const migrations = new FsmMigrator(this, definitionFsm).plan(options);
+        const fromVersion = this._definitionVersion;
+
+        // the definition is copied, so the machine it came from stays usable on its own
+        const states = FsmState.copyStates(definitionFsm.states);
+        this.cancelTokenTimers();
+        this._states.clear();
+        states.forEach((state, stateId) => this._states.set(stateId, state));
+        this._events.clear();
+        definitionFsm._events.forEach((event, eventId) => this._events.set(eventId, event));
+        this._initialStates.clear();
+        definitionFsm._initialStates.forEach((state, fsmRegionName) => this._initialStates.set(fsmRegionName, states.get(state.stateId) as FsmState));
+        this._defaultTransition = definitionFsm._defaultTransition && { ...definitionFsm._defaultTransition, nextState: states.get(definitionFsm._defaultTransition.nextState.stateId) as FsmState };
+        this._allowSelfTransition = definitionFsm._allowSelfTransition;
+        this._reenterOnSelfTransition = definitionFsm._reenterOnSelfTransition;
+        this._definitionVersion = definitionFsm._definitionVersion;
+        this._internalListener.emit(FsmListenerEvent.onDefinitionReplaced, this, fromVersion);
+
+        return this.applyTokenMigrations(migrations, fromVersion);
+    }
+
+    private applyTokenMigrations(migrations: FsmTokenMigration[], fromVersion: number): FsmMigrationResult {
+        const result: FsmMigrationResult = { fromVersion, toVersion: this._definitionVersion, migratedTokens: [], fallbackTokens: [], droppedTokens: [], unmappedStates: [] };
+        migrations.forEach(migration => {
+            result.unmappedStates.push(...migration.unmappedStates);
+            if (!migration.record) {
+                this.deleteTokenRecord(migration.tokenId);
+                result.droppedTokens.push(migration.tokenId);
+                this._listener?.emit(TokenListenerEvent.onTokenDropped, migration.tokenId, migration.unmappedStates[0].state);
+                return;
+            }
+            // every token is written once, with all of its regions mapped
+            this.setTokenRecord(migration.tokenId, migration.record);
+            const configuration = this.toTokenConfiguration(migration.tokenId, migration.record);
+            migration.record.stateSets ? this.cancelTokenTimers(migration.tokenId) : this.restartTokenTimers(migration.tokenId, configuration);
+            result.migratedTokens.push(migration.tokenId);
+            (migration.unmappedStates.length > 0) && result.fallbackTokens.push(migration.tokenId);
+            this._listener?.emit(TokenListenerEvent.onTokenMigrated, migration.tokenId, configuration, fromVersion);
+        });
+        return result;
+    }
+
+    snapshotTokens(): FsmTokenSnapshot {
+        const tokens: { [tokenId: string]: FsmTokenRecord } = {};
+        for (const [tokenId, record] of this._tokenStore.entries()) {
+            tokens[tokenId] = FiniteStateMachine.copyTokenRecord(record);
+        }
+        return { version: FSM_TOKEN_SNAPSHOT_VERSION, fsmName: this._name, tokens };
+    }
+
+    restoreTokens(snapshot: FsmTokenSnapshot | string, reset: boolean = false): number {
+        const tokenSnapshot: FsmTokenSnapshot = (typeof snapshot === "string") ? JSON.parse(snapshot) : snapshot;
+        if (!tokenSnapshot || typeof tokenSnapshot !== "object" || !tokenSnapshot.tokens) {
+            throw new Error('Invalid token snapshot: not an object');
+        }
+        if (typeof tokenSnapshot.version !== "number" || tokenSnapshot.version < 1 || tokenSnapshot.version > FSM_TOKEN_SNAPSHOT_VERSION) {
+            throw new Error(`Invalid token snapshot: unsupported version ${tokenSnapshot.version}, expected ${FSM_TOKEN_SNAPSHOT_VERSION}`);
+        }
+
+        // version 1 snapshots hold a single state per token, in the default region of the snapshot fsm
+        const records: Array<[string, FsmTokenRecord]> = Object.entries(tokenSnapshot.tokens).map(([tokenId, record]) => [
+            tokenId,
+            (tokenSnapshot.version === 1) ? { states: { [tokenSnapshot.fsmName || this._name]: (record as FsmTokenRecordV1)?.stateId } } : FiniteStateMachine.copyTokenRecord(record as FsmTokenRecord),
+        ]);
+        const unknownStates: string[] = [];
+        records.forEach(([tokenId, record]) => {
+            const stateIds = Object.entries(record.states);
+            if (stateIds.length === 0) {
+                unknownStates.push(`${tokenId}:-`);
+            }
+            stateIds.filter(([, stateId]) => !this._states.has(stateId)).forEach(([fsmRegionName, stateId]) => {
+                unknownStates.push(`${tokenId}:${stateId}@${fsmRegionName}`);
+            });
+            Object.entries(record.stateSets || {}).forEach(([fsmRegionName, stateSet]) => {
+                stateSet.filter(stateId => !this._states.has(stateId)).forEach(stateId => {
+                    unknownStates.push(`${tokenId}:${stateId}@${fsmRegionName}`);
+                });
+            });
+        });
+        if (unknownStates.length > 0) {
+            throw new Error(`Invalid token snapshot: unknown states for tokens ${unknownStates.join(', ')}[${this._name}]`);
+        }
+        if (!reset) {
+            const existingTokens = records.filter(([tokenId]) => this._tokenStore.has(tokenId));
+            if (existingTokens.length > 0) {
+                throw new Error(`Invalid action: token instances ${existingTokens.map(([tokenId]) => tokenId).join(', ')} exist`);
+            }
+        }
+
+        records.forEach(([tokenId, record]) => {
+            this.setTokenRecord(tokenId, record, true);
+            record.stateSets ? this.cancelTokenTimers(tokenId) : this.restartTokenTimers(tokenId, this.toTokenConfiguration(tokenId, record));
+        });
+        return records.length;
+    }
+
+    private static getTokenRecordStateIds(record: FsmTokenRecord): number[] {
+        return record.stateSets ? ([] as number[]).concat(...Object.values(record.stateSets)) : Object.values(record.states);
+    }
+
+    private static copyTokenRecord(record: FsmTokenRecord): FsmTokenRecord {
+        const copy: FsmTokenRecord = { states: { ...record?.states } };
+        if (record?.stateSets) {
+            copy.stateSets = { ...record.stateSets };
+        }
+        if (record?.context !== undefined) {
+            copy.context = record.context;
+        }
+        if (record?.version !== undefined) {
+            copy.version = record.version;
+        }
+        return copy;
+    }
+
     get internalListener() {
         return this._internalListener;
     }
@@ -407,10 +2155,116 @@ export class FiniteStateMachine {
         this._listener = newListener;
     }
 
+    toJSON(): FsmJson {
+        const transitions: FsmTransitionJson[] = [];
+        this._states.forEach(state => {
+            state.getTransitions().forEach(transition => {
+                const transitionJson: FsmTransitionJson = {
+                    from: state.stateId,
+                    event: transition.onEvent.eventId,
+                    to: transition.nextState.stateId,
+                };
+                if (transition.output) {
+                    transitionJson.action = this.getActionNameForJson(transition.output, `output of ${state} ---[ ${transition.onEvent} ]--> ${transition.nextState}`);
+                }
+                if (transition.guard) {
+                    const guardName = this._actions.getGuardName(transition.guard);
+                    if (!guardName) {
+                        throw new Error(`Invalid action: cannot serialize unregistered guard of ${state} ---[ ${transition.onEvent} ]--> ${transition.nextState}[${this._name}]`);
+                    }
+                    transitionJson.guard = guardName;
+                }
+                transitions.push(transitionJson);
+            });
+        });
+
+        const epsilonTransitions: FsmEpsilonTransitionJson[] = [];
+        this._states.forEach(state => {
+            state.epsilonTransitions.forEach(epsilonState => {
+                epsilonTransitions.push({ from: state.stateId, to: epsilonState.stateId });
+            });
+        });
+
+        const initialStates: { [fsmRegionName: string]: number } = {};
+        this._initialStates.forEach((state, fsmRegionName) => {
+            initialStates[fsmRegionName] = state.stateId;
+        });
+
+        return {
+            version: FSM_JSON_VERSION,
+            name: this._name,
+            ...(this._definitionVersion !== 1 ? { definitionVersion: this._definitionVersion } : {}),
+            allowSelfTransition: this._allowSelfTransition,
+            states: this.states.map(state => {
+                const stateJson = state.toJSON();
+                if (state.entryAction) {
+                    stateJson.onEnter = this.getActionNameForJson(state.entryAction, `entry of ${state}`);
+                }
+                if (state.exitAction) {
+                    stateJson.onExit = this.getActionNameForJson(state.exitAction, `exit of ${state}`);
+                }
+                if (state.parentState) {
+                    stateJson.parent = state.parentState.stateId;
+                }
+                if (state.initialChildState) {
+                    stateJson.initialChild = state.initialChildState.stateId;
+                }
+                if (state.eventDelays.length > 0) {
+                    stateJson.delays = state.eventDelays.map(([event, delayMs]): FsmEventDelayJson => ({ event: event.eventId, delayMs }));
+                }
+                if (state.wildcardTransition) {
+                    stateJson.wildcard = this.getWildcardTransitionJson(state);
+                }
+                if (state.ignoredEvents.length > 0) {
+                    stateJson.ignoredEvents = state.ignoredEvents.map(event => event.eventId);
+                }
+                return stateJson;
+            }),
+            events: this.events.map(event => event.toJSON()),
+            transitions,
+            ...(epsilonTransitions.length > 0 ? { epsilonTransitions } : {}),
+            ...(this._defaultTransition ? { defaultTransition: this.getDefaultTransitionJson() } : {}),
+            initialStates,
+        };
+    }
+
+    private getWildcardTransitionJson(state: FsmState): FsmWildcardTransitionJson {
+        const wildcardTransition = state.wildcardTransition as FsmWildcardTransition;
+        const wildcardJson: FsmWildcardTransitionJson = { to: wildcardTransition.nextState.stateId };
+        if (wildcardTransition.output) {
+            wildcardJson.action = this.getActionNameForJson(wildcardTransition.output, `output of ${state} ---[ *any* ]--> ${wildcardTransition.nextState}`);
+        }
+        if (wildcardTransition.guard) {
+            const guardName = this._actions.getGuardName(wildcardTransition.guard);
+            if (!guardName) {
+                throw new Error(`Invalid action: cannot serialize unregistered guard of ${state} ---[ *any* ]--> ${wildcardTransition.nextState}[${this._name}]`);
+            }
+            wildcardJson.guard = guardName;
+        }
+        return wildcardJson;
+    }
+
+    private getDefaultTransitionJson(): FsmDefaultTransitionJson {
+        const defaultTransition = this._defaultTransition as FsmDefaultTransition;
+        const defaultJson: FsmDefaultTransitionJson = { to: defaultTransition.nextState.stateId };
+        if (defaultTransition.output) {
+            defaultJson.action = this.getActionNameForJson(defaultTransition.output, `output of default transition --> ${defaultTransition.nextState}`);
+        }
+        return defaultJson;
+    }
+
+    private getActionNameForJson(action: StoredOutputFunction, description: string): string {
+        const actionName = this._actions.getActionName(action);
+        if (!actionName) {
+            throw new Error(`Invalid action: cannot serialize unregistered ${description}[${this._name}]`);
+        }
+        return actionName;
+    }
+
     toString() {
         let states = '';
-        this._states.forEach(state => {
-            states += `\t${state.toString()}\n`;
+        this.getStatesInHierarchyOrder().forEach(([state, depth]) => {
+            states += `\t${'\t'.repeat(depth)}${state.toString()}\n`;
         });
 
         let events = '';
@@ -0,0 +1,88 @@
+import { StoredFsmGuard, StoredOutputFunction } from './fsm-state';
+
+export class FsmActionRegistry {
+
+    private readonly _actions = new Map<string, StoredOutputFunction>();
+    private readonly _guards = new Map<string, StoredFsmGuard>();
+
+    get size() {
+        return this._actions.size;
+    }
+
+    get actionNames() {
+        return Array.from(this._actions.keys());
+    }
+
+    get guardNames() {
+        return Array.from(this._guards.keys());
+    }
+
+    register(actionName: string, action: StoredOutputFunction) {
+        FsmActionRegistry.registerFunction(this._actions, 'action', actionName, action);
+        return this;
+    }
+
+    unregister(actionName: string) {
+        return this._actions.delete(actionName);
+    }
+
+    has(actionName: string) {
+        return this._actions.has(actionName);
+    }
+
+    get(actionName: string): StoredOutputFunction | null {
+        return this._actions.get(actionName) || null;
+    }
+
+    getActionName(action: StoredOutputFunction | null): string | null {
+        return FsmActionRegistry.getFunctionName(this._actions, action);
+    }
+
+    registerGuard(guardName: string, guard: StoredFsmGuard) {
+        FsmActionRegistry.registerFunction(this._guards, 'guard', guardName, guard);
+        return this;
+    }
+
+    unregisterGuard(guardName: string) {
+        return this._guards.delete(guardName);
+    }
+
+    hasGuard(guardName: string) {
+        return this._guards.has(guardName);
+    }
+
+    getGuard(guardName: string): StoredFsmGuard | null {
+        return this._guards.get(guardName) || null;
+    }
+
+    getGuardName(guard: StoredFsmGuard | null): string | null {
+        return FsmActionRegistry.getFunctionName(this._guards, guard);
+    }
+
+    private static registerFunction<T extends Function>(registry: Map<string, T>, kind: string, name: string, fn: T) {
+        if (!name?.trim()) {
+            throw new Error(`Invalid action: invalid ${kind}Name`);
+        }
+        if (typeof fn !== "function") {
+            throw new Error(`Invalid action: ${kind} ${name} is not a function`);
+        }
+        const currentFn = registry.get(name);
+        if (currentFn && currentFn !== fn) {
+            throw new Error(`Invalid action: duplicate ${kind}: ${name}`);
+        }
+        registry.set(name, fn);
+    }
+
+    private static getFunctionName<T extends Function>(registry: Map<string, T>, fn: T | null): string | null {
+        if (!fn) {
+            return null;
+        }
+        for (const [name, registeredFn] of registry.entries()) {
+            if (registeredFn === fn) {
+                return name;
+            }
+        }
+        return null;
+    }
+
+}
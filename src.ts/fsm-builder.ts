@@ -0,0 +1,100 @@
+import { FiniteStateMachine, FsmContextFactory } from './finite-state-machine';
+import { FsmActionRegistry } from './fsm-action-registry';
+import { FsmGuard, FsmState, OutputFunction } from './fsm-state';
+import { TokenStore } from './fsm-token-store';
+
+// keeps names used in references out of inference, so a typo is reported instead of widening the union
+type FsmNoInfer<T> = [T][T extends unknown ? 0 : never];
+
+export interface FsmStateDefinition<TStateName extends string, TContext> {
+    id?: number;
+    final?: boolean;
+    deterministic?: boolean;
+    initial?: boolean | string;
+    parent?: FsmNoInfer<TStateName>;
+    initialChild?: FsmNoInfer<TStateName>;
+    onEnter?: OutputFunction<TContext> | string;
+    onExit?: OutputFunction<TContext> | string;
+}
+
+export interface FsmTransitionDefinition<TStateName extends string, TContext> {
+    target: FsmNoInfer<TStateName>;
+    action?: OutputFunction<TContext> | string;
+    guard?: FsmGuard<TContext> | string;
+    after?: number;
+}
+
+export type FsmTransitionTarget<TStateName extends string, TContext> =
+    FsmNoInfer<TStateName> | FsmTransitionDefinition<TStateName, TContext> | Array<FsmNoInfer<TStateName> | FsmTransitionDefinition<TStateName, TContext>>;
+
+export interface FsmMachineDefinition<TStateName extends string, TEventName extends string, TContext> {
+    name: string;
+    states: { [S in TStateName]: FsmStateDefinition<TStateName, TContext> };
+    events: readonly TEventName[];
+    transitions?: { [S in FsmNoInfer<TStateName>]?: { [E in FsmNoInfer<TEventName>]?: FsmTransitionTarget<TStateName, TContext> } };
+    epsilonTransitions?: { [S in FsmNoInfer<TStateName>]?: Array<FsmNoInfer<TStateName>> };
+    context?: FsmContextFactory<TContext>;
+    actions?: FsmActionRegistry;
+    tokenStore?: TokenStore;
+    allowSelfTransition?: boolean;
+    reenterOnSelfTransition?: boolean;
+}
+
+export function defineMachine<TStateName extends string, TEventName extends string, TContext = unknown>(
+    definition: FsmMachineDefinition<TStateName, TEventName, TContext>): FiniteStateMachine<TContext, TStateName, TEventName> {
+    const fsm = FiniteStateMachine.createNewFiniteStateMachine<TContext, TStateName, TEventName>(definition.name, definition.actions, definition.tokenStore);
+    const stateEntries = Object.entries(definition.states) as Array<[TStateName, FsmStateDefinition<TStateName, TContext>]>;
+
+    stateEntries.forEach(([stateName, stateDefinition]) => {
+        const state = stateDefinition.final ? fsm.addFinalState(stateName, stateDefinition.id) : fsm.addState(stateName, stateDefinition.id);
+        if (stateDefinition.deterministic === false) {
+            state.markNonDeterministic();
+        }
+        stateDefinition.onEnter && fsm.setEntryAction(state, stateDefinition.onEnter);
+        stateDefinition.onExit && fsm.setExitAction(state, stateDefinition.onExit);
+    });
+    stateEntries.forEach(([stateName, stateDefinition]) => {
+        stateDefinition.parent && fsm.setParentState(stateName, stateDefinition.parent);
+    });
+    stateEntries.forEach(([stateName, stateDefinition]) => {
+        stateDefinition.initialChild && fsm.setInitialChildState(stateName, stateDefinition.initialChild);
+    });
+
+    definition.events.forEach(eventName => fsm.addEvent(eventName));
+
+    // a self transition in a definition that does not allow them is rejected like any other
+    fsm.allowSelfTransition = (definition.allowSelfTransition !== false);
+    Object.entries(definition.transitions || {}).forEach(([stateName, eventTargets]) => {
+        Object.entries(eventTargets as { [eventName: string]: FsmTransitionTarget<TStateName, TContext> }).forEach(([eventName, targets]) => {
+            (Array.isArray(targets) ? targets : [targets]).forEach(target => {
+                const transition: FsmTransitionDefinition<TStateName, TContext> = (typeof target === "string") ? { target } : target;
+                if (typeof transition.after === "number") {
+                    fsm.addDelayedTransition(stateName as TStateName, eventName as TEventName, transition.after, transition.target, transition.action, transition.guard);
+                } else {
+                    fsm.addStateTransition(stateName as TStateName, eventName as TEventName, transition.target, transition.action, transition.guard);
+                }
+            });
+        });
+    });
+    Object.entries(definition.epsilonTransitions || {}).forEach(([stateName, targets]) => {
+        (targets as TStateName[]).forEach(target => fsm.addEpsilonTransition(stateName as TStateName, target));
+    });
+
+    const initialStates = stateEntries.filter(([, stateDefinition]) => stateDefinition.initial);
+    if (initialStates.length > 0) {
+        fsm.regionNames.forEach(fsmRegionName => fsm.removeInitialState(fsmRegionName));
+        initialStates.forEach(([stateName, stateDefinition]) => {
+            const fsmRegionName = (typeof stateDefinition.initial === "string") ? stateDefinition.initial : definition.name;
+            if (fsm.getInitialState(fsmRegionName)) {
+                throw new Error(`Invalid machine definition: multiple initial states for ${fsmRegionName}`);
+            }
+            fsm.setInitialState(fsm.getState(stateName) as FsmState, fsmRegionName);
+        });
+    }
+
+    fsm.reenterOnSelfTransition = !!definition.reenterOnSelfTransition;
+    if (definition.context) {
+        fsm.contextFactory = definition.context;
+    }
+    return fsm;
+}
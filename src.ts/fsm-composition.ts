@@ -0,0 +1,218 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmEvent } from './fsm-event';
+import { FsmMinimizer } from './fsm-minimization';
+import { FsmState } from './fsm-state';
+
+export interface FsmCompositionResult {
+    fsm: FiniteStateMachine;
+    // one component per composed machine, null when that machine can no longer accept
+    stateComponents: Map<FsmState, Array<FsmState | null>>;
+    acceptingStates: FsmState[];
+}
+
+// accepting states default to the states marked final, determinization and composition results carry their own
+export type FsmAcceptor<TContext = unknown> = FiniteStateMachine<TContext> | { fsm: FiniteStateMachine<TContext>, acceptingStates: FsmState[] };
+
+// the composed machines may each have their own context, it is never used in a composition
+type FsmComposers<TContext, TOtherContext> = Array<FsmComposer<TContext> | FsmComposer<TOtherContext>>;
+
+interface FsmCompositionNode {
+    components: Array<FsmState | null>;
+    isAccepting: boolean;
+    edges: Array<[string, string]>;
+}
+
+interface FsmCompositionMode {
+    action: string;
+    synchronous: boolean;
+    // language operations drop the states that can never accept, a product keeps every reachable state
+    prune: boolean;
+    isAccepting: (acceptingComponents: boolean[]) => boolean;
+}
+
+export class FsmComposer<TContext = unknown> {
+
+    private readonly _fsm: FiniteStateMachine<TContext>;
+    private readonly _acceptingStates: FsmState[] | null;
+
+    constructor(acceptor: FsmAcceptor<TContext>) {
+        this._fsm = FsmComposer.getFsm(acceptor);
+        this._acceptingStates = (acceptor instanceof FiniteStateMachine) ? null : acceptor.acceptingStates;
+    }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    product<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName: string = `${this._fsm.name}*${FsmComposer.getFsm(other).name}`): FsmCompositionResult {
+        return this.compose([this, new FsmComposer(other)], fsmName, {
+            action: 'build the product of',
+            prune: false,
+            synchronous: true,
+            isAccepting: acceptingComponents => acceptingComponents.every(isAccepting => isAccepting),
+        });
+    }
+
+    union<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName: string = `${this._fsm.name}|${FsmComposer.getFsm(other).name}`): FsmCompositionResult {
+        return this.compose([this, new FsmComposer(other)], fsmName, {
+            action: 'build the union of',
+            prune: true,
+            synchronous: false,
+            isAccepting: acceptingComponents => acceptingComponents.some(isAccepting => isAccepting),
+        });
+    }
+
+    intersection<TOtherContext>(other: FsmAcceptor<TOtherContext>, fsmName: string = `${this._fsm.name}&${FsmComposer.getFsm(other).name}`): FsmCompositionResult {
+        return this.compose([this, new FsmComposer(other)], fsmName, {
+            action: 'build the intersection of',
+            prune: true,
+            synchronous: false,
+            isAccepting: acceptingComponents => acceptingComponents.every(isAccepting => isAccepting),
+        });
+    }
+
+    complement(fsmName: string = `!${this._fsm.name}`): FsmCompositionResult {
+        return this.compose([this], fsmName, {
+            action: 'build the complement of',
+            prune: true,
+            synchronous: false,
+            isAccepting: acceptingComponents => !acceptingComponents[0],
+        });
+    }
+
+    private compose<TOtherContext = TContext>(composers: FsmComposers<TContext, TOtherContext>, fsmName: string, mode: FsmCompositionMode): FsmCompositionResult {
+        composers.forEach(composer => composer.assertDeterministic(mode.action));
+        const initialComponents = composers.map(composer => {
+            const initialState = composer._fsm.getInitialState();
+            if (!initialState) {
+                throw new Error(`No initial state for ${composer._fsm.name}`);
+            }
+            return initialState.getInitialLeafState();
+        });
+
+        // events are matched by name, an event unknown to a machine is not part of its alphabet
+        const eventNames: string[] = [];
+        composers.forEach(composer => composer._fsm.events.forEach(event => eventNames.includes(event.eventName) || eventNames.push(event.eventName)));
+        const composedFsm = FiniteStateMachine.createNewFiniteStateMachine(fsmName);
+        eventNames.forEach(eventName => composedFsm.addEvent(eventName));
+
+        const getNextComponents = (components: Array<FsmState | null>, eventName: string) => {
+            const nextComponents = mode.synchronous
+                ? FsmComposer.getSynchronousNextComponents(composers, components, eventName)
+                : composers.map((composer, index) => composer.getNextComponent(components[index], eventName));
+            // a state without any component left is only kept when it accepts, as in a complement
+            return (!nextComponents || (nextComponents.every(component => !component) && !mode.isAccepting(nextComponents.map(() => false)))) ? null : nextComponents;
+        };
+
+        // the reachable part is explored first, so states that can never accept are known before the machine is built
+        const nodes = new Map<string, FsmCompositionNode>();
+        const pendingKeys: string[] = [];
+        const getNodeKey = (components: Array<FsmState | null>) => {
+            const key = components.map(component => component ? component.stateId : '-').join(',');
+            if (!nodes.has(key)) {
+                const isAccepting = mode.isAccepting(components.map((component, index) => !!component && composers[index].isAcceptingState(component)));
+                nodes.set(key, { components, isAccepting, edges: [] });
+                pendingKeys.push(key);
+            }
+            return key;
+        };
+        const initialKey = getNodeKey(initialComponents);
+        for (let index = 0; index < pendingKeys.length; index++) {
+            const node = nodes.get(pendingKeys[index]) as FsmCompositionNode;
+            eventNames.forEach(eventName => {
+                const nextComponents = getNextComponents(node.components, eventName);
+                nextComponents && node.edges.push([eventName, getNodeKey(nextComponents)]);
+            });
+        }
+        const liveKeys = mode.prune ? FsmComposer.getLiveKeys(nodes) : new Set(nodes.keys());
+
+        const stateComponents = new Map<FsmState, Array<FsmState | null>>();
+        const acceptingStates: FsmState[] = [];
+        const statesByKey = new Map<string, FsmState>();
+        composedFsm.allowSelfTransition = true;
+        if (!liveKeys.has(initialKey)) {
+            // nothing is accepted, a single sink that loops on every event keeps the initial state from looking final
+            const sinkState = composedFsm.addState(FsmComposer.getStateName(initialComponents));
+            composedFsm.setInitialState(sinkState);
+            stateComponents.set(sinkState, initialComponents);
+            eventNames.forEach(eventName => composedFsm.addStateTransition(sinkState, eventName, sinkState));
+            return { fsm: composedFsm, stateComponents, acceptingStates };
+        }
+        pendingKeys.filter(key => liveKeys.has(key)).forEach(key => {
+            const node = nodes.get(key) as FsmCompositionNode;
+            const stateName = FsmComposer.getStateName(node.components);
+            // final states cannot have outgoing transitions, the other accepting states are only reported
+            const isStuck = node.edges.every(([, nextKey]) => !liveKeys.has(nextKey));
+            const composedState = (node.isAccepting && isStuck) ? composedFsm.addFinalState(stateName) : composedFsm.addState(stateName);
+            node.isAccepting && acceptingStates.push(composedState);
+            statesByKey.set(key, composedState);
+            stateComponents.set(composedState, node.components);
+        });
+        composedFsm.setInitialState(statesByKey.get(initialKey) as FsmState);
+        statesByKey.forEach((composedState, key) => {
+            (nodes.get(key) as FsmCompositionNode).edges
+                .filter(([, nextKey]) => liveKeys.has(nextKey))
+                .forEach(([eventName, nextKey]) => composedFsm.addStateTransition(composedState, eventName, statesByKey.get(nextKey) as FsmState));
+        });
+        return { fsm: composedFsm, stateComponents, acceptingStates };
+    }
+
+    private static getLiveKeys(nodes: Map<string, FsmCompositionNode>): Set<string> {
+        // a state is live when an accepting state can be reached from it, the others are dropped with the transitions into them
+        const previousKeys = new Map<string, string[]>();
+        nodes.forEach((node, key) => node.edges.forEach(([, nextKey]) => {
+            const keys = previousKeys.get(nextKey) || [];
+            keys.push(key);
+            previousKeys.set(nextKey, keys);
+        }));
+        const liveKeys = new Set(Array.from(nodes.keys()).filter(key => (nodes.get(key) as FsmCompositionNode).isAccepting));
+        const pendingKeys = Array.from(liveKeys);
+        while (pendingKeys.length > 0) {
+            (previousKeys.get(pendingKeys.pop() as string) || []).forEach(previousKey => {
+                if (!liveKeys.has(previousKey)) {
+                    liveKeys.add(previousKey);
+                    pendingKeys.push(previousKey);
+                }
+            });
+        }
+        return liveKeys;
+    }
+
+    private static getSynchronousNextComponents<TContext, TOtherContext>(composers: FsmComposers<TContext, TOtherContext>, components: Array<FsmState | null>, eventName: string): Array<FsmState | null> | null {
+        // shared events move every machine or none, other events only move the machine they belong to
+        const nextComponents: Array<FsmState | null> = [];
+        for (let index = 0; index < composers.length; index++) {
+            const event = composers[index]._fsm.getEvent(eventName);
+            const nextComponent = event ? composers[index]._fsm.nextState(components[index] as FsmState, event) : components[index];
+            if (!nextComponent) {
+                return null;
+            }
+            nextComponents.push(nextComponent);
+        }
+        return nextComponents;
+    }
+
+    private getNextComponent(component: FsmState | null, eventName: string): FsmState | null {
+        const event: FsmEvent | null = this._fsm.getEvent(eventName);
+        return (component && event) ? this._fsm.nextState(component, event) : null;
+    }
+
+    private assertDeterministic(action: string) {
+        FsmMinimizer.assertDeterministic(this._fsm, action);
+    }
+
+    private isAcceptingState(state: FsmState) {
+        // a nested state is accepting when the state itself or one of its ancestors is accepting
+        return [state, ...state.getAncestors()].some(activeState => this._acceptingStates ? this._acceptingStates.includes(activeState) : activeState.isMarkedFinal());
+    }
+
+    private static getFsm<TAcceptorContext>(acceptor: FsmAcceptor<TAcceptorContext>): FiniteStateMachine<TAcceptorContext> {
+        return (acceptor instanceof FiniteStateMachine) ? acceptor : acceptor.fsm;
+    }
+
+    private static getStateName(components: Array<FsmState | null>) {
+        const componentNames = components.map(component => component ? component.statePath : '*sink*');
+        return (componentNames.length === 1) ? componentNames[0] : `(${componentNames.join(',')})`;
+    }
+
+}
@@ -0,0 +1,130 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmEvent } from './fsm-event';
+import { FsmState, FsmTransition, OutputFunction } from './fsm-state';
+
+export interface FsmDeterminizationResult<TContext = unknown> {
+    fsm: FiniteStateMachine<TContext>;
+    stateSets: Map<FsmState, FsmState[]>;
+    acceptingStates: FsmState[];
+}
+
+export class FsmDeterminizer<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    static getEpsilonClosure(states: FsmState[]): FsmState[] {
+        const closure: FsmState[] = [];
+        states.forEach(state => state.getEpsilonClosure().forEach(closureState => {
+            if (!closure.includes(closureState)) {
+                closure.push(closureState);
+            }
+        }));
+        return closure;
+    }
+
+    static getNextStates(states: FsmState[], onEvent: FsmEvent, tokenId?: string, payload?: unknown, context?: unknown): FsmState[] {
+        const nextStates: FsmState[] = [];
+        states.forEach(state => nextStates.push(...state.nextStates(onEvent, tokenId, payload, context)));
+        return FsmDeterminizer.getEpsilonClosure(nextStates);
+    }
+
+    determinize(fsmName: string = this._fsm.name): FsmDeterminizationResult<TContext> {
+        this._fsm.states.forEach(state => state.getTransitions().forEach(transition => {
+            if (transition.guard) {
+                throw new Error(`Invalid action: cannot determinize ${this._fsm.name} with guarded transition ${state} ---[ ${transition.onEvent} ]--> ${transition.nextState}`);
+            }
+        }));
+        this._fsm.states.forEach(state => {
+            if (state.wildcardTransition?.guard) {
+                throw new Error(`Invalid action: cannot determinize ${this._fsm.name} with guarded transition ${state} ---[ *any* ]--> ${state.wildcardTransition.nextState}`);
+            }
+        });
+        if (this._fsm.defaultTransition) {
+            throw new Error(`Invalid action: cannot determinize ${this._fsm.name} with default transition --> ${this._fsm.defaultTransition.nextState}`);
+        }
+
+        const events = this._fsm.events;
+        const determinizedFsm = FiniteStateMachine.createNewFiniteStateMachine<TContext>(fsmName, this._fsm.actions);
+        events.forEach(event => determinizedFsm.addEvent(event.eventName, event.eventId));
+
+        const stateSets = new Map<FsmState, FsmState[]>();
+        const statesByKey = new Map<string, FsmState>();
+        const pendingStates: FsmState[] = [];
+        const getDeterminizedState = (stateSet: FsmState[]) => {
+            const sortedSet = [...stateSet].sort((a, b) => a.stateId - b.stateId);
+            const key = sortedSet.map(state => state.stateId).join(',');
+            let determinizedState = statesByKey.get(key);
+            if (!determinizedState) {
+                const stateName = (sortedSet.length === 1) ? sortedSet[0].statePath : `{${sortedSet.map(state => state.statePath).join(',')}}`;
+                const isStuck = events.every(event => FsmDeterminizer.getNextStates(sortedSet, event).length === 0);
+                determinizedState = (isStuck && sortedSet.some(state => state.isMarkedFinal()))
+                    ? determinizedFsm.addFinalState(stateName)
+                    : determinizedFsm.addState(stateName);
+                determinizedState
+                    .onEnter(FsmDeterminizer.getCommonFunction(sortedSet.map(state => state.entryAction)))
+                    .onExit(FsmDeterminizer.getCommonFunction(sortedSet.map(state => state.exitAction)));
+                statesByKey.set(key, determinizedState);
+                stateSets.set(determinizedState, sortedSet);
+                pendingStates.push(determinizedState);
+            }
+            return determinizedState;
+        };
+
+        const initialStates = new Map<string, FsmState>();
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = (this._fsm.getInitialState(fsmRegionName) as FsmState).getInitialLeafState();
+            initialStates.set((fsmRegionName === this._fsm.name) ? fsmName : fsmRegionName, getDeterminizedState(initialState.getEpsilonClosure()));
+        });
+
+        // subset construction: every reachable set of nfa states becomes one state of the new machine
+        determinizedFsm.allowSelfTransition = true;
+        while (pendingStates.length > 0) {
+            const determinizedState = pendingStates.shift() as FsmState;
+            const stateSet = stateSets.get(determinizedState) as FsmState[];
+            events.forEach(event => {
+                const nextStates = FsmDeterminizer.getNextStates(stateSet, event);
+                if (nextStates.length === 0) {
+                    return;
+                }
+                const transitions: FsmTransition[] = [];
+                stateSet.forEach(state => transitions.push(...FsmDeterminizer.getHandlingTransitions(state, event)));
+                const output = FsmDeterminizer.getCommonFunction(transitions.map(transition => transition.output));
+                determinizedFsm.addStateTransition(determinizedState, event.eventId, getDeterminizedState(nextStates), (output || undefined) as OutputFunction<TContext> | undefined);
+            });
+        }
+        determinizedFsm.allowSelfTransition = this._fsm.allowSelfTransition;
+        determinizedFsm.reenterOnSelfTransition = this._fsm.reenterOnSelfTransition;
+        determinizedFsm.contextFactory = this._fsm.contextFactory;
+
+        determinizedFsm.regionNames.forEach(fsmRegionName => determinizedFsm.removeInitialState(fsmRegionName));
+        initialStates.forEach((state, fsmRegionName) => determinizedFsm.setInitialState(state, fsmRegionName));
+
+        return {
+            fsm: determinizedFsm,
+            stateSets,
+            acceptingStates: determinizedFsm.states.filter(state => (stateSets.get(state) as FsmState[]).some(member => member.isMarkedFinal())),
+        };
+    }
+
+    private static getHandlingTransitions(state: FsmState, onEvent: FsmEvent): FsmTransition[] {
+        for (const handlingState of state.getEventHandlingStates()) {
+            const wildcardTransition = handlingState.getWildcardTransition(onEvent);
+            const transitions = wildcardTransition ? [wildcardTransition] : handlingState.getTransitionsOnEvent(onEvent);
+            if (transitions.length > 0 || handlingState.ignoredEvents.includes(onEvent)) {
+                return transitions;
+            }
+        }
+        return [];
+    }
+
+    private static getCommonFunction<T>(functions: Array<T | null>): T | null {
+        // actions are only kept when every merged state or transition agrees on them
+        const distinctFunctions = Array.from(new Set(functions));
+        return (distinctFunctions.length === 1) ? distinctFunctions[0] : null;
+    }
+
+}
@@ -0,0 +1,275 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmState, FsmTransition, FsmWildcardTransition, StoredOutputFunction } from './fsm-state';
+
+export interface FsmDiagramOptions {
+    tokenId?: string;
+    showStateIds?: boolean;
+}
+
+export class FsmDiagramExporter<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    toDot(options: FsmDiagramOptions = {}): string {
+        const activeStates = this.getActiveStates(options);
+        const lines: string[] = [
+            `digraph "${this.escape(this._fsm.name)}" {`,
+            '\trankdir=LR;',
+            '\tnode [shape=box, style=rounded];',
+        ];
+
+        const addState = (state: FsmState, indent: string) => {
+            if (state.isCompositeState()) {
+                lines.push(`${indent}subgraph "cluster_${this.nodeId(state)}" {`);
+                lines.push(`${indent}\tlabel="${this.escape(this.stateLabel(state, options))}";`);
+                if (!state.isDeterministic()) {
+                    lines.push(`${indent}\tstyle="dashed";`);
+                }
+                if (activeStates.some(activeState => activeState.isDescendantOf(state))) {
+                    lines.push(`${indent}\tcolor="red";`);
+                }
+                lines.push(`${indent}\t"${this.nodeId(state)}" [shape=point];`);
+                state.childStates.forEach(childState => addState(childState, `${indent}\t`));
+                lines.push(`${indent}}`);
+                return;
+            }
+            const attributes = [`label="${this.escape(this.stateLabel(state, options))}"`];
+            if (state.isFinalState()) {
+                attributes.push('shape=doublecircle');
+            }
+            const styles = ['rounded'];
+            if (!state.isDeterministic()) {
+                styles.push('dashed');
+            }
+            if (activeStates.includes(state)) {
+                styles.push('filled');
+                attributes.push('fillcolor="gold"');
+            }
+            attributes.push(`style="${styles.join(',')}"`);
+            lines.push(`${indent}"${this.nodeId(state)}" [${attributes.join(', ')}];`);
+        };
+        this.getRootStates().forEach(state => addState(state, '\t'));
+
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = this._fsm.getInitialState(fsmRegionName) as FsmState;
+            lines.push(`\t"${this.initialNodeId(fsmRegionName)}" [shape=point, label=""];`);
+            lines.push(`\t"${this.initialNodeId(fsmRegionName)}" -> "${this.nodeId(initialState)}" [label="${this.escape(fsmRegionName)}"];`);
+        });
+
+        this.getAllTransitions().forEach(transition => {
+            const attributes = [`label="${this.escape(this.transitionLabel(transition))}"`];
+            if (transition.fromState.equals(transition.nextState)) {
+                attributes.push('color="blue"', 'style="dashed"');
+            }
+            lines.push(`\t"${this.nodeId(transition.fromState)}" -> "${this.nodeId(transition.nextState)}" [${attributes.join(', ')}];`);
+        });
+        this.getEpsilonTransitions().forEach(([fromState, nextState]) => {
+            lines.push(`\t"${this.nodeId(fromState)}" -> "${this.nodeId(nextState)}" [label="ε", style="dotted"];`);
+        });
+        this.getWildcardTransitions().forEach(transition => {
+            lines.push(`\t"${this.nodeId(transition.fromState)}" -> "${this.nodeId(transition.nextState)}" [label="${this.escape(this.transitionLabel(transition))}", style="bold"];`);
+        });
+        const defaultTransition = this._fsm.defaultTransition;
+        if (defaultTransition) {
+            lines.push(`\t"${this.defaultNodeId()}" [shape=plaintext, label="*"];`);
+            lines.push(`\t"${this.defaultNodeId()}" -> "${this.nodeId(defaultTransition.nextState)}" [label="${this.escape(this.defaultTransitionLabel(defaultTransition.output))}", style="bold"];`);
+        }
+
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    toMermaid(options: FsmDiagramOptions = {}): string {
+        const activeStates = this.getActiveStates(options);
+        const lines: string[] = ['stateDiagram-v2'];
+
+        const addState = (state: FsmState, indent: string) => {
+            lines.push(`${indent}state "${this.escapeMermaid(this.stateLabel(state, options))}" as ${this.nodeId(state)}`);
+            if (state.isCompositeState()) {
+                lines.push(`${indent}state ${this.nodeId(state)} {`);
+                lines.push(`${indent}\t[*] --> ${this.nodeId(state.initialChildState as FsmState)}`);
+                state.childStates.forEach(childState => addState(childState, `${indent}\t`));
+                lines.push(`${indent}}`);
+            }
+        };
+        this.getRootStates().forEach(state => addState(state, '\t'));
+
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = this._fsm.getInitialState(fsmRegionName) as FsmState;
+            lines.push(`\t[*] --> ${this.nodeId(initialState)} : ${this.escapeMermaid(fsmRegionName)}`);
+        });
+
+        this.getAllTransitions().forEach(transition => {
+            const selfInfo = transition.fromState.equals(transition.nextState) ? ' (self)' : '';
+            lines.push(`\t${this.nodeId(transition.fromState)} --> ${this.nodeId(transition.nextState)} : ${this.escapeMermaid(this.transitionLabel(transition))}${selfInfo}`);
+        });
+        this.getEpsilonTransitions().forEach(([fromState, nextState]) => {
+            lines.push(`\t${this.nodeId(fromState)} --> ${this.nodeId(nextState)} : ε`);
+        });
+        this.getWildcardTransitions().forEach(transition => {
+            lines.push(`\t${this.nodeId(transition.fromState)} --> ${this.nodeId(transition.nextState)} : ${this.escapeMermaid(this.transitionLabel(transition))}`);
+        });
+        const defaultTransition = this._fsm.defaultTransition;
+        if (defaultTransition) {
+            lines.push(`\tstate "*" as ${this.defaultNodeId()}`);
+            lines.push(`\t${this.defaultNodeId()} --> ${this.nodeId(defaultTransition.nextState)} : ${this.escapeMermaid(this.defaultTransitionLabel(defaultTransition.output))}`);
+        }
+
+        const finalStates = this._fsm.states.filter(state => state.isFinalState());
+        finalStates.forEach(state => lines.push(`\t${this.nodeId(state)} --> [*]`));
+
+        const nonDeterministicStates = this._fsm.states.filter(state => !state.isDeterministic());
+        if (nonDeterministicStates.length > 0) {
+            lines.push('\tclassDef nonDeterministic stroke-dasharray: 5 5');
+            lines.push(`\tclass ${nonDeterministicStates.map(state => this.nodeId(state)).join(',')} nonDeterministic`);
+        }
+        if (activeStates.length > 0) {
+            lines.push('\tclassDef active fill:#ffd700,stroke:#ff0000');
+            lines.push(`\tclass ${activeStates.map(state => this.nodeId(state)).join(',')} active`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    toPlantUml(options: FsmDiagramOptions = {}): string {
+        const activeStates = this.getActiveStates(options);
+        const lines: string[] = ['@startuml', `title ${this.escapePlantUml(this._fsm.name)}`];
+
+        const addState = (state: FsmState, indent: string) => {
+            const styles: string[] = [];
+            if (activeStates.includes(state)) {
+                styles.push('gold', 'line:red');
+            }
+            if (!state.isDeterministic()) {
+                styles.push('line.dashed');
+            }
+            const stereotype = state.isFinalState() ? ' <<final>>' : !state.isDeterministic() ? ' <<nondeterministic>>' : '';
+            const style = styles.length > 0 ? ` #${styles.join(';')}` : '';
+            const label = `state "${this.escapePlantUml(this.stateLabel(state, options))}" as ${this.nodeId(state)}${stereotype}${style}`;
+            if (state.isCompositeState()) {
+                lines.push(`${indent}${label} {`);
+                lines.push(`${indent}\t[*] --> ${this.nodeId(state.initialChildState as FsmState)}`);
+                state.childStates.forEach(childState => addState(childState, `${indent}\t`));
+                lines.push(`${indent}}`);
+            } else {
+                lines.push(`${indent}${label}`);
+            }
+        };
+        this.getRootStates().forEach(state => addState(state, ''));
+
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = this._fsm.getInitialState(fsmRegionName) as FsmState;
+            lines.push(`[*] --> ${this.nodeId(initialState)} : ${this.escapePlantUml(fsmRegionName)}`);
+        });
+
+        this.getAllTransitions().forEach(transition => {
+            const arrow = transition.fromState.equals(transition.nextState) ? '-[#blue,dashed]->' : '-->';
+            lines.push(`${this.nodeId(transition.fromState)} ${arrow} ${this.nodeId(transition.nextState)} : ${this.escapePlantUml(this.transitionLabel(transition))}`);
+        });
+        this.getEpsilonTransitions().forEach(([fromState, nextState]) => {
+            lines.push(`${this.nodeId(fromState)} -[dotted]-> ${this.nodeId(nextState)} : ε`);
+        });
+        this.getWildcardTransitions().forEach(transition => {
+            lines.push(`${this.nodeId(transition.fromState)} -[bold]-> ${this.nodeId(transition.nextState)} : ${this.escapePlantUml(this.transitionLabel(transition))}`);
+        });
+        const defaultTransition = this._fsm.defaultTransition;
+        if (defaultTransition) {
+            lines.push(`state "*" as ${this.defaultNodeId()}`);
+            lines.push(`${this.defaultNodeId()} -[bold]-> ${this.nodeId(defaultTransition.nextState)} : ${this.escapePlantUml(this.defaultTransitionLabel(defaultTransition.output))}`);
+        }
+
+        this._fsm.states.filter(state => state.isFinalState()).forEach(state => lines.push(`${this.nodeId(state)} --> [*]`));
+        lines.push('@enduml');
+        return lines.join('\n') + '\n';
+    }
+
+    private getRootStates() {
+        return this._fsm.states.filter(state => !state.parentState);
+    }
+
+    private getAllTransitions(): FsmTransition[] {
+        const transitions: FsmTransition[] = [];
+        this._fsm.states.forEach(state => transitions.push(...state.getTransitions()));
+        return transitions;
+    }
+
+    private getEpsilonTransitions(): Array<[FsmState, FsmState]> {
+        const epsilonTransitions: Array<[FsmState, FsmState]> = [];
+        this._fsm.states.forEach(state => state.epsilonTransitions.forEach(nextState => epsilonTransitions.push([state, nextState])));
+        return epsilonTransitions;
+    }
+
+    private getWildcardTransitions(): FsmWildcardTransition[] {
+        return this._fsm.states.map(state => state.wildcardTransition).filter((transition): transition is FsmWildcardTransition => !!transition);
+    }
+
+    private getActiveStates(options: FsmDiagramOptions): FsmState[] {
+        if (!options.tokenId) {
+            return [];
+        }
+        const tokenId = options.tokenId;
+        const activeStates: FsmState[] = [];
+        this._fsm.getTokenConfiguration(tokenId, false).regionNames.forEach(fsmRegionName => {
+            activeStates.push(...this._fsm.getTokenStateSet(tokenId, fsmRegionName));
+        });
+        return activeStates;
+    }
+
+    private nodeId(state: FsmState) {
+        return `state_${state.stateId < 0 ? `n${-state.stateId}` : state.stateId}`;
+    }
+
+    private initialNodeId(fsmRegionName: string) {
+        return `initial_${this.escape(fsmRegionName)}`;
+    }
+
+    private defaultNodeId() {
+        // the default transition is taken from any state without a transition for the event
+        return 'default_transition';
+    }
+
+    private stateLabel(state: FsmState, options: FsmDiagramOptions) {
+        return options.showStateIds ? `${state.stateName}(${state.stateId})` : state.stateName;
+    }
+
+    private transitionLabel(transition: FsmTransition | FsmWildcardTransition) {
+        // a wildcard transition is labelled *, as in the state table
+        let label = '*';
+        if ('onEvent' in transition) {
+            label = transition.onEvent.eventName;
+            const delayMs = transition.fromState.getEventDelay(transition.onEvent);
+            if (delayMs !== null) {
+                label += ` after ${delayMs}ms`;
+            }
+        }
+        if (transition.guard) {
+            label += ` [${this._fsm.actions.getGuardName(transition.guard) || transition.guard.name || 'guard'}]`;
+        }
+        return label + this.outputLabel(transition.output);
+    }
+
+    private defaultTransitionLabel(output: StoredOutputFunction | null) {
+        return 'default' + this.outputLabel(output);
+    }
+
+    private outputLabel(output: StoredOutputFunction | null) {
+        return output ? ` / ${this._fsm.actions.getActionName(output) || output.name || 'output'}` : '';
+    }
+
+    private escape(text: string) {
+        return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    }
+
+    private escapeMermaid(text: string) {
+        // mermaid has no backslash escapes, characters that end a label are written as entity codes
+        return text.replace(/[#"\[\]{}<>;\\]/g, character => `#${character.charCodeAt(0)};`).replace(/\r?\n/g, ' ');
+    }
+
+    private escapePlantUml(text: string) {
+        return text.replace(/["\[\]\\]/g, character => `<U+${character.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}>`).replace(/\r?\n/g, ' ');
+    }
+
+}
@@ -1,6 +1,8 @@
-export class FsmEvent {
+import { FsmEventJson } from './fsm-json';
 
-    constructor(private readonly _eventId: number, private _eventName: string) { }
+export class FsmEvent<TPayload = unknown> {
+
+    constructor(private readonly _eventId: number, private _eventName: string, private readonly _payload?: TPayload) { }
 
     get eventId() {
         return this._eventId;
@@ -10,6 +12,15 @@ export class FsmEvent {
         return this._eventName;
     }
 
+    get payload(): TPayload | undefined {
+        return this._payload;
+    }
+
+    withPayload(payload?: TPayload): FsmEvent<TPayload> {
+        // the payload travels on a copy, so the defined event can still be compared by identity
+        return (typeof payload === "undefined") ? this : new FsmEvent<TPayload>(this._eventId, this._eventName, payload);
+    }
+
     equals(otherEvent?: FsmEvent | number | string) {
         if (otherEvent instanceof FsmEvent) {
             return this._eventId === otherEvent._eventId && this._eventName === otherEvent._eventName;
@@ -22,6 +33,10 @@ export class FsmEvent {
         }
     }
 
+    toJSON(): FsmEventJson {
+        return { id: this._eventId, name: this._eventName };
+    }
+
     toString() {
         return `${this._eventName}(${this._eventId})`;
     }
@@ -0,0 +1,78 @@
+import { FsmTokenRecord } from './fsm-token-store';
+
+// bumped whenever the schema changes, older documents still load
+// 2: entry and exit actions, nested states, delays, wildcard, ignored, epsilon and default transitions
+export const FSM_JSON_VERSION = 2;
+
+export interface FsmStateJson {
+    id: number;
+    name: string;
+    final: boolean;
+    deterministic: boolean;
+    onEnter?: string;
+    onExit?: string;
+    parent?: number;
+    initialChild?: number;
+    delays?: FsmEventDelayJson[];
+    wildcard?: FsmWildcardTransitionJson;
+    ignoredEvents?: number[];
+}
+
+export interface FsmEventDelayJson {
+    event: number;
+    delayMs: number;
+}
+
+export interface FsmEventJson {
+    id: number;
+    name: string;
+}
+
+export interface FsmTransitionJson {
+    from: number;
+    event: number;
+    to: number;
+    action?: string;
+    guard?: string;
+}
+
+export interface FsmWildcardTransitionJson {
+    to: number;
+    action?: string;
+    guard?: string;
+}
+
+export interface FsmDefaultTransitionJson {
+    to: number;
+    action?: string;
+}
+
+export interface FsmEpsilonTransitionJson {
+    from: number;
+    to: number;
+}
+
+export interface FsmJson {
+    version: number;
+    name: string;
+    definitionVersion?: number;
+    allowSelfTransition: boolean;
+    states: FsmStateJson[];
+    events: FsmEventJson[];
+    transitions: FsmTransitionJson[];
+    epsilonTransitions?: FsmEpsilonTransitionJson[];
+    defaultTransition?: FsmDefaultTransitionJson;
+    initialStates: { [fsmRegionName: string]: number };
+}
+
+export const FSM_TOKEN_SNAPSHOT_VERSION = 2;
+
+export interface FsmTokenRecordV1 {
+    stateId: number;
+}
+
+export interface FsmTokenSnapshot {
+    version: number;
+    fsmName: string;
+    tokens: { [tokenId: string]: FsmTokenRecord | FsmTokenRecordV1 };
+}
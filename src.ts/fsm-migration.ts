@@ -0,0 +1,172 @@
+import { FiniteStateMachine, FsmTokenPolicy } from './finite-state-machine';
+import { FsmState } from './fsm-state';
+import { FsmTokenRecord } from './fsm-token-store';
+
+export type FsmStateMapper = (state: FsmState | null, tokenId: string, fsmRegionName: string, stateId: number) => FsmState | number | string | null | undefined;
+
+export type FsmStateMapping = 'id' | 'name' | { [fromState: string]: number | string } | FsmStateMapper;
+
+export interface FsmMigrationOptions {
+    stateMapping?: FsmStateMapping;
+    tokenPolicy?: FsmTokenPolicy;
+    fallbackState?: FsmState | number | string;
+}
+
+export interface FsmUnmappedState {
+    tokenId: string;
+    fsmRegionName: string;
+    stateId: number;
+    state: FsmState | null;
+}
+
+export interface FsmTokenMigration {
+    tokenId: string;
+    previousRecord: FsmTokenRecord;
+    record: FsmTokenRecord | null;
+    unmappedStates: FsmUnmappedState[];
+}
+
+export interface FsmMigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    migratedTokens: string[];
+    fallbackTokens: string[];
+    droppedTokens: string[];
+    unmappedStates: FsmUnmappedState[];
+}
+
+export class FsmMigrator<TSourceContext = unknown, TTargetContext = unknown> {
+
+    private readonly _targetStatesByPath: Map<string, FsmState>;
+
+    constructor(private readonly _sourceFsm: FiniteStateMachine<TSourceContext>, private readonly _targetFsm: FiniteStateMachine<TTargetContext>) {
+        this._targetStatesByPath = new Map(_targetFsm.states.map(state => [state.statePath, state]));
+    }
+
+    get sourceFsm() {
+        return this._sourceFsm;
+    }
+
+    get targetFsm() {
+        return this._targetFsm;
+    }
+
+    plan(options: FsmMigrationOptions = {}): FsmTokenMigration[] {
+        const migrations = Array.from(this._sourceFsm.tokenStore.entries()).map(([tokenId, record]) => this.mapTokenRecord(tokenId, record, options.stateMapping || 'name'));
+        const unmappedMigrations = migrations.filter(migration => migration.unmappedStates.length > 0);
+        if (unmappedMigrations.length === 0) {
+            return migrations;
+        }
+
+        const tokenPolicy = options.tokenPolicy || FsmTokenPolicy.reject;
+        if (tokenPolicy === FsmTokenPolicy.reject) {
+            const unmappedStates = ([] as FsmUnmappedState[]).concat(...unmappedMigrations.map(migration => migration.unmappedStates));
+            throw new Error(`Invalid action: cannot migrate token instances to ${this._targetFsm.name} version ${this._targetFsm.definitionVersion}, unmapped states ${unmappedStates.map(FsmMigrator.unmappedStateToString).join(', ')}[${this._sourceFsm.name}]`);
+        }
+        const fallbackState = (tokenPolicy === FsmTokenPolicy.fallback) ? this.getFallbackState(options.fallbackState) : null;
+        unmappedMigrations.forEach(migration => {
+            migration.record = fallbackState ? this.applyFallbackState(migration, fallbackState) : null;
+        });
+        return migrations;
+    }
+
+    private mapTokenRecord(tokenId: string, previousRecord: FsmTokenRecord, stateMapping: FsmStateMapping): FsmTokenMigration {
+        const unmappedStates: FsmUnmappedState[] = [];
+        const mapStateId = (fsmRegionName: string, stateId: number) => {
+            const targetState = this.mapState(tokenId, fsmRegionName, stateId, stateMapping);
+            if (!targetState) {
+                unmappedStates.push({ tokenId, fsmRegionName, stateId, state: this._sourceFsm.getState(stateId) });
+                return null;
+            }
+            return targetState.getInitialLeafState().stateId;
+        };
+
+        const record: FsmTokenRecord = { states: {}, version: this._targetFsm.definitionVersion };
+        if (previousRecord.stateSets) {
+            record.stateSets = {};
+            Object.entries(previousRecord.stateSets).forEach(([fsmRegionName, stateSet]) => {
+                const targetStateSet = stateSet.map(stateId => mapStateId(fsmRegionName, stateId)).filter(stateId => stateId !== null) as number[];
+                (record.stateSets as { [fsmRegionName: string]: number[] })[this.getTargetRegionName(fsmRegionName)] = Array.from(new Set(targetStateSet));
+            });
+        }
+        Object.entries(previousRecord.states).forEach(([fsmRegionName, stateId]) => {
+            const stateSet = record.stateSets?.[this.getTargetRegionName(fsmRegionName)];
+            // the state of a region with a state set is one of its members, which have been mapped already
+            const targetStateId = stateSet ? this.mapState(tokenId, fsmRegionName, stateId, stateMapping)?.getInitialLeafState().stateId : mapStateId(fsmRegionName, stateId);
+            record.states[this.getTargetRegionName(fsmRegionName)] = (typeof targetStateId === "number" && (!stateSet || stateSet.includes(targetStateId))) ? targetStateId : (stateSet?.[0] ?? stateId);
+        });
+        if (previousRecord.context !== undefined) {
+            record.context = previousRecord.context;
+        }
+        return { tokenId, previousRecord, record, unmappedStates };
+    }
+
+    private mapState(tokenId: string, fsmRegionName: string, stateId: number, stateMapping: FsmStateMapping): FsmState | null {
+        const sourceState = this._sourceFsm.getState(stateId);
+        if (stateMapping === 'id') {
+            return this._targetFsm.getState(stateId);
+        }
+        if (typeof stateMapping === "function") {
+            const mappedState = stateMapping(sourceState, tokenId, fsmRegionName, stateId);
+            return (mappedState === null || typeof mappedState === "undefined") ? null : this.resolveTargetState(mappedState);
+        }
+        if (!sourceState) {
+            return null;
+        }
+        if (stateMapping !== 'name') {
+            // states that are not listed keep their name
+            const mappedState = [sourceState.statePath, sourceState.stateName, `${sourceState.stateId}`]
+                .map(key => stateMapping[key])
+                .find(target => typeof target !== "undefined");
+            if (typeof mappedState !== "undefined") {
+                return this.resolveTargetState(mappedState);
+            }
+        }
+        return this.resolveTargetState(sourceState.statePath) || this.resolveTargetState(sourceState.stateName);
+    }
+
+    private resolveTargetState(state: FsmState | number | string): FsmState | null {
+        if (state instanceof FsmState) {
+            return (this._targetFsm.getState(state.stateId) === state) ? state : null;
+        }
+        return (typeof state === "string") ? this._targetStatesByPath.get(state) || this._targetFsm.getState(state) : this._targetFsm.getState(state);
+    }
+
+    private getFallbackState(fallbackState?: FsmState | number | string): FsmState {
+        const fallbackStateObj = (typeof fallbackState === "undefined") ? null : this.resolveTargetState(fallbackState);
+        if (!fallbackStateObj) {
+            throw new Error(`Invalid action: invalid fallback state ${fallbackState} for migration to ${this._targetFsm.name}[${this._sourceFsm.name}]`);
+        }
+        return fallbackStateObj;
+    }
+
+    private applyFallbackState(migration: FsmTokenMigration, fallbackState: FsmState): FsmTokenRecord {
+        const record = migration.record as FsmTokenRecord;
+        const fallbackLeafState = fallbackState.getInitialLeafState();
+        migration.unmappedStates.forEach(unmappedState => {
+            const fsmRegionName = this.getTargetRegionName(unmappedState.fsmRegionName);
+            const stateSet = record.stateSets?.[fsmRegionName];
+            if (!stateSet) {
+                record.states[fsmRegionName] = fallbackLeafState.stateId;
+            } else if (stateSet.length === 0) {
+                stateSet.push(...fallbackLeafState.getEpsilonClosure().map(closureState => closureState.stateId));
+            }
+        });
+        Object.entries(record.stateSets || {}).forEach(([fsmRegionName, stateSet]) => {
+            if (!stateSet.includes(record.states[fsmRegionName])) {
+                record.states[fsmRegionName] = stateSet[0];
+            }
+        });
+        return record;
+    }
+
+    private getTargetRegionName(fsmRegionName: string) {
+        // the default region follows the name of the target machine
+        return (fsmRegionName === this._sourceFsm.name) ? this._targetFsm.name : fsmRegionName;
+    }
+
+    private static unmappedStateToString(unmappedState: FsmUnmappedState) {
+        return `${unmappedState.tokenId}:${unmappedState.state || unmappedState.stateId}@${unmappedState.fsmRegionName}`;
+    }
+
+}
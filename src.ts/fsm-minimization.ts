@@ -0,0 +1,236 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmEvent } from './fsm-event';
+import { FsmState, OutputFunction } from './fsm-state';
+
+export interface FsmMinimizationResult<TContext = unknown> {
+    fsm: FiniteStateMachine<TContext>;
+    stateMapping: Map<FsmState, FsmState>;
+    removedStates: FsmState[];
+}
+
+export interface FsmEquivalenceOptions {
+    matchEventsBy?: 'name' | 'id';
+    fsmRegionName?: string;
+}
+
+export interface FsmEquivalenceResult {
+    isEquivalent: boolean;
+    distinguishingSequence: Array<number | string> | null;
+}
+
+export class FsmMinimizer<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    minimize(fsmName: string = this._fsm.name): FsmMinimizationResult<TContext> {
+        FsmMinimizer.assertDeterministic(this._fsm, 'minimize');
+
+        const events = this._fsm.events;
+        const states = this.getReachableLeafStates();
+        const sink = states.length;
+        const stateIndex = new Map<FsmState, number>(states.map((state, index) => [state, index]));
+        const nextStateIndex = states.map(state => events.map(event => {
+            const nextState = this._fsm.nextState(state, event);
+            return nextState ? stateIndex.get(nextState) as number : sink;
+        }));
+        nextStateIndex.push(events.map(() => sink));
+
+        // states can only be merged when their finality, entry/exit actions and outputs agree
+        const functionIds = new Map<Function | null, number>([[null, 0]]);
+        const functionId = (fn: Function | null) => {
+            if (!functionIds.has(fn)) {
+                functionIds.set(fn, functionIds.size);
+            }
+            return functionIds.get(fn) as number;
+        };
+        const initialBlocks = new Map<string, number[]>();
+        states.forEach((state, index) => {
+            const outputs = events.map(event => {
+                const handlingState = state.getEventHandlingStates().find(candidate => candidate.isTransitionValid(event));
+                return functionId(handlingState?.nextOutput(event) || null);
+            });
+            const key = [state.isFinalState(), functionId(state.entryAction), functionId(state.exitAction), ...outputs].join(':');
+            initialBlocks.set(key, [...(initialBlocks.get(key) || []), index]);
+        });
+        initialBlocks.set('sink', [sink]);
+
+        const blocks = FsmMinimizer.refinePartition(Array.from(initialBlocks.values()), nextStateIndex, events.length);
+        const blockOf: number[] = [];
+        blocks.forEach((block, blockId) => block.forEach(index => blockOf[index] = blockId));
+
+        const minimizedFsm = FiniteStateMachine.createNewFiniteStateMachine<TContext>(fsmName, this._fsm.actions);
+        events.forEach(event => minimizedFsm.addEvent(event.eventName, event.eventId));
+
+        const minimizedStates = new Map<number, FsmState>();
+        blocks
+            .map((block, blockId) => ({ blockId, members: block.filter(index => index !== sink).sort((a, b) => a - b) }))
+            .filter(({ members }) => members.length > 0)
+            .sort((a, b) => a.members[0] - b.members[0])
+            .forEach(({ blockId, members }) => {
+                const representative = states[members[0]];
+                const stateName = members.map(index => states[index].stateName).join('|');
+                const minimizedState = members.some(index => states[index].isMarkedFinal())
+                    ? minimizedFsm.addFinalState(stateName, representative.stateId)
+                    : minimizedFsm.addState(stateName, representative.stateId);
+                minimizedState.onEnter(representative.entryAction).onExit(representative.exitAction);
+                minimizedStates.set(blockId, minimizedState);
+            });
+
+        minimizedFsm.allowSelfTransition = true;
+        minimizedStates.forEach((minimizedState, blockId) => {
+            const representative = blocks[blockId].filter(index => index !== sink).sort((a, b) => a - b)[0];
+            events.forEach((event, eventIndex) => {
+                const nextIndex = nextStateIndex[representative][eventIndex];
+                if (nextIndex === sink || minimizedState.isMarkedFinal()) {
+                    return;
+                }
+                const handlingState = states[representative].getEventHandlingStates().find(candidate => candidate.isTransitionValid(event));
+                minimizedFsm.addStateTransition(minimizedState, event.eventId, minimizedStates.get(blockOf[nextIndex]) as FsmState, (handlingState?.nextOutput(event) || undefined) as OutputFunction<TContext> | undefined);
+            });
+        });
+        minimizedFsm.allowSelfTransition = this._fsm.allowSelfTransition;
+        minimizedFsm.reenterOnSelfTransition = this._fsm.reenterOnSelfTransition;
+        minimizedFsm.contextFactory = this._fsm.contextFactory;
+
+        minimizedFsm.regionNames.forEach(fsmRegionName => minimizedFsm.removeInitialState(fsmRegionName));
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = (this._fsm.getInitialState(fsmRegionName) as FsmState).getInitialLeafState();
+            const minimizedState = minimizedStates.get(blockOf[stateIndex.get(initialState) as number]) as FsmState;
+            minimizedFsm.setInitialState(minimizedState, (fsmRegionName === this._fsm.name) ? fsmName : fsmRegionName);
+        });
+
+        const stateMapping = new Map<FsmState, FsmState>();
+        states.forEach((state, index) => stateMapping.set(state, minimizedStates.get(blockOf[index]) as FsmState));
+        return {
+            fsm: minimizedFsm,
+            stateMapping,
+            removedStates: this._fsm.states.filter(state => !state.isCompositeState() && !stateIndex.has(state)),
+        };
+    }
+
+    isEquivalent<TOtherContext>(otherFsm: FiniteStateMachine<TOtherContext>, options: FsmEquivalenceOptions = {}): FsmEquivalenceResult {
+        FsmMinimizer.assertDeterministic(this._fsm, 'compare');
+        FsmMinimizer.assertDeterministic(otherFsm, 'compare');
+
+        const matchEventsBy = options.matchEventsBy || 'name';
+        const eventKey = (event: FsmEvent) => (matchEventsBy === 'id') ? event.eventId : event.eventName;
+        const eventKeys = Array.from(new Set([...this._fsm.events.map(eventKey), ...otherFsm.events.map(eventKey)]));
+
+        const initialState = this._fsm.getInitialState(options.fsmRegionName)?.getInitialLeafState() || null;
+        const otherInitialState = otherFsm.getInitialState(options.fsmRegionName)?.getInitialLeafState() || null;
+        const observe = (state: FsmState | null) => !state ? 'stuck' : state.isFinalState() ? 'final' : 'active';
+        const next = (fsm: FiniteStateMachine<TContext> | FiniteStateMachine<TOtherContext>, state: FsmState | null, key: number | string) => {
+            const event = state && fsm.getEvent(key);
+            return (state && event) ? fsm.nextState(state, event) : null;
+        };
+
+        // breadth first search over state pairs yields the shortest distinguishing sequence
+        type StatePair = { state: FsmState | null; otherState: FsmState | null; sequence: Array<number | string> };
+        const visited = new Set<string>();
+        const pairKey = (pair: StatePair) => `${pair.state?.stateId ?? '-'}:${pair.otherState?.stateId ?? '-'}`;
+        const pendingPairs: StatePair[] = [{ state: initialState, otherState: otherInitialState, sequence: [] }];
+        visited.add(pairKey(pendingPairs[0]));
+        while (pendingPairs.length > 0) {
+            const pair = pendingPairs.shift() as StatePair;
+            if (observe(pair.state) !== observe(pair.otherState)) {
+                return { isEquivalent: false, distinguishingSequence: pair.sequence };
+            }
+            if (!pair.state && !pair.otherState) {
+                continue;
+            }
+            eventKeys.forEach(key => {
+                const nextPair = { state: next(this._fsm, pair.state, key), otherState: next(otherFsm, pair.otherState, key), sequence: [...pair.sequence, key] };
+                if (!visited.has(pairKey(nextPair))) {
+                    visited.add(pairKey(nextPair));
+                    pendingPairs.push(nextPair);
+                }
+            });
+        }
+        return { isEquivalent: true, distinguishingSequence: null };
+    }
+
+    private getReachableLeafStates(): FsmState[] {
+        const reachableStates = new Set<FsmState>();
+        const pendingStates: FsmState[] = [];
+        const visit = (state: FsmState | null) => {
+            if (state && !reachableStates.has(state)) {
+                reachableStates.add(state);
+                pendingStates.push(state);
+            }
+        };
+        this._fsm.regionNames.forEach(fsmRegionName => visit(this._fsm.getInitialState(fsmRegionName)?.getInitialLeafState() || null));
+        while (pendingStates.length > 0) {
+            const state = pendingStates.shift() as FsmState;
+            this._fsm.events.forEach(event => visit(this._fsm.nextState(state, event)));
+        }
+        return this._fsm.states.filter(state => reachableStates.has(state));
+    }
+
+    private static refinePartition(initialBlocks: number[][], nextStateIndex: number[][], nEvents: number): number[][] {
+        // Hopcroft's algorithm on a complete transition function
+        const previousStates: number[][][] = [];
+        for (let eventIndex = 0; eventIndex < nEvents; ++eventIndex) {
+            previousStates.push(nextStateIndex.map(() => []));
+            nextStateIndex.forEach((nextIndexes, index) => previousStates[eventIndex][nextIndexes[eventIndex]].push(index));
+        }
+
+        const blocks: Array<Set<number>> = initialBlocks.map(block => new Set(block));
+        const blockOf: number[] = [];
+        blocks.forEach((block, blockId) => block.forEach(index => blockOf[index] = blockId));
+        const pendingBlocks = new Set<number>(blocks.map((_, blockId) => blockId));
+
+        while (pendingBlocks.size > 0) {
+            const splitterId = pendingBlocks.values().next().value as number;
+            pendingBlocks.delete(splitterId);
+            const splitter = Array.from(blocks[splitterId]);
+
+            for (let eventIndex = 0; eventIndex < nEvents; ++eventIndex) {
+                const predecessors = new Set<number>();
+                splitter.forEach(index => previousStates[eventIndex][index].forEach(previousIndex => predecessors.add(previousIndex)));
+
+                const touchedBlocks = new Map<number, number[]>();
+                predecessors.forEach(index => touchedBlocks.set(blockOf[index], [...(touchedBlocks.get(blockOf[index]) || []), index]));
+                touchedBlocks.forEach((inside, blockId) => {
+                    const block = blocks[blockId];
+                    if (inside.length === block.size) {
+                        return;
+                    }
+                    const newBlockId = blocks.length;
+                    const newBlock = new Set(inside);
+                    inside.forEach(index => {
+                        block.delete(index);
+                        blockOf[index] = newBlockId;
+                    });
+                    blocks.push(newBlock);
+                    if (pendingBlocks.has(blockId)) {
+                        pendingBlocks.add(newBlockId);
+                    } else {
+                        pendingBlocks.add(block.size <= newBlock.size ? blockId : newBlockId);
+                    }
+                });
+            }
+        }
+        return blocks.map(block => Array.from(block));
+    }
+
+    static assertDeterministic<TFsmContext>(fsm: FiniteStateMachine<TFsmContext>, action: string) {
+        fsm.states.forEach(state => {
+            state.getTransitions().forEach(transition => {
+                if (transition.guard || !transition.nextState.isDeterministic() || state.hasMultipleTargets(transition.onEvent)) {
+                    throw new Error(`Invalid action: cannot ${action} ${fsm.name} with ${transition.guard ? 'guarded' : 'non-deterministic'} transition ${state} ---[ ${transition.onEvent} ]--> ${transition.nextState}`);
+                }
+            });
+            if (state.wildcardTransition?.guard) {
+                throw new Error(`Invalid action: cannot ${action} ${fsm.name} with guarded transition ${state} ---[ *any* ]--> ${state.wildcardTransition.nextState}`);
+            }
+            if (state.epsilonTransitions.length > 0) {
+                throw new Error(`Invalid action: cannot ${action} ${fsm.name} with epsilon transition from ${state}, determinize it first`);
+            }
+        });
+    }
+
+}
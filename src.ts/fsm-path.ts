@@ -0,0 +1,194 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmEvent } from './fsm-event';
+import { FsmState } from './fsm-state';
+
+export interface FsmTestStep {
+    event: FsmEvent;
+    expectedState: FsmState;
+}
+
+export interface FsmTestSequence {
+    startState: FsmState;
+    steps: FsmTestStep[];
+}
+
+interface FsmPathEdge {
+    from: FsmState;
+    event: FsmEvent;
+    to: FsmState;
+}
+
+export class FsmPathFinder<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    shortestPath(fromState: FsmState | number | string, toState: FsmState | number | string): FsmEvent[] | null {
+        const startState = this.resolveState(fromState, 'start').getInitialLeafState();
+        const targetState = this.resolveState(toState, 'target');
+        const path = this.findPath(startState, state => state === targetState || state.isDescendantOf(targetState));
+        return path ? path.map(edge => edge.event) : null;
+    }
+
+    generateStateCoverage(fromState?: FsmState | number | string): FsmTestSequence[] {
+        const startState = this.getStartState(fromState);
+        const uncoveredStates = new Set(this.getReachableStates(startState));
+        uncoveredStates.delete(startState);
+        // each sequence walks to the closest uncovered state, a new one starts once none is reachable anymore
+        return this.generateSequences(startState, () => uncoveredStates.size > 0, currentState => {
+            const path = this.findPath(currentState, state => uncoveredStates.has(state));
+            path?.forEach(edge => uncoveredStates.delete(edge.to));
+            return path;
+        });
+    }
+
+    generateTransitionTour(fromState?: FsmState | number | string): FsmTestSequence[] {
+        const startState = this.getStartState(fromState);
+        const uncoveredEdges: FsmPathEdge[] = [];
+        this.getReachableStates(startState).forEach(state => uncoveredEdges.push(...this.getEdges(state)));
+        const isUncovered = (edge: FsmPathEdge) => uncoveredEdges.some(uncoveredEdge => uncoveredEdge.from === edge.from && uncoveredEdge.event === edge.event);
+        const cover = (edge: FsmPathEdge) => {
+            const index = uncoveredEdges.findIndex(uncoveredEdge => uncoveredEdge.from === edge.from && uncoveredEdge.event === edge.event);
+            (index >= 0) && uncoveredEdges.splice(index, 1);
+        };
+        return this.generateSequences(startState, () => uncoveredEdges.length > 0, currentState => {
+            const path = this.findPath(currentState, state => this.getEdges(state).some(isUncovered));
+            if (!path) {
+                return null;
+            }
+            const lastState = (path.length > 0) ? path[path.length - 1].to : currentState;
+            path.push(this.getEdges(lastState).find(isUncovered) as FsmPathEdge);
+            path.forEach(cover);
+            return path;
+        });
+    }
+
+    generateRandomWalk(length: number, seed: number, fromState?: FsmState | number | string): FsmTestSequence {
+        const startState = this.getStartState(fromState);
+        const random = FsmPathFinder.createRandom(seed);
+        const sequence: FsmTestSequence = { startState, steps: [] };
+        let currentState = startState;
+        while (sequence.steps.length < length) {
+            const edges = this.getEdges(currentState);
+            if (edges.length === 0) {
+                break;
+            }
+            const edge = edges[Math.floor(random() * edges.length)];
+            sequence.steps.push({ event: edge.event, expectedState: edge.to });
+            currentState = edge.to;
+        }
+        return sequence;
+    }
+
+    private generateSequences(startState: FsmState, hasUncovered: () => boolean, nextPath: (currentState: FsmState) => FsmPathEdge[] | null): FsmTestSequence[] {
+        const sequences: FsmTestSequence[] = [];
+        let sequence: FsmTestSequence = { startState, steps: [] };
+        let currentState = startState;
+        while (hasUncovered()) {
+            const path = nextPath(currentState);
+            if (!path) {
+                if (sequence.steps.length === 0) {
+                    break;
+                }
+                sequences.push(sequence);
+                sequence = { startState, steps: [] };
+                currentState = startState;
+                continue;
+            }
+            path.forEach(edge => sequence.steps.push({ event: edge.event, expectedState: edge.to }));
+            currentState = (path.length > 0) ? path[path.length - 1].to : currentState;
+        }
+        if (sequence.steps.length > 0) {
+            sequences.push(sequence);
+        }
+        return sequences;
+    }
+
+    private findPath(startState: FsmState, isTarget: (state: FsmState) => boolean): FsmPathEdge[] | null {
+        // breadth first, so the first path found is one of the shortest
+        const previousEdges = new Map<FsmState, FsmPathEdge | null>([[startState, null]]);
+        const pendingStates = [startState];
+        while (pendingStates.length > 0) {
+            const state = pendingStates.shift() as FsmState;
+            if (isTarget(state)) {
+                const path: FsmPathEdge[] = [];
+                for (let edge = previousEdges.get(state); edge; edge = previousEdges.get(edge.from)) {
+                    path.unshift(edge);
+                }
+                return path;
+            }
+            this.getEdges(state).forEach(edge => {
+                if (!previousEdges.has(edge.to)) {
+                    previousEdges.set(edge.to, edge);
+                    pendingStates.push(edge.to);
+                }
+            });
+        }
+        return null;
+    }
+
+    private getReachableStates(startState: FsmState): FsmState[] {
+        const reachableStates = new Set<FsmState>([startState]);
+        const pendingStates = [startState];
+        while (pendingStates.length > 0) {
+            this.getEdges(pendingStates.shift() as FsmState).forEach(edge => {
+                if (!reachableStates.has(edge.to)) {
+                    reachableStates.add(edge.to);
+                    pendingStates.push(edge.to);
+                }
+            });
+        }
+        return this._fsm.states.filter(state => reachableStates.has(state));
+    }
+
+    private getEdges(state: FsmState): FsmPathEdge[] {
+        // ignored events do not change the state and guarded transitions need a token, neither is part of a path
+        const edges: FsmPathEdge[] = [];
+        this._fsm.events.forEach(event => {
+            if (this._fsm.getEventHandling(state, event) === 'ignored') {
+                return;
+            }
+            const nextStates = this._fsm.nextStates(state, event);
+            if (nextStates.length > 1) {
+                throw new Error(`Invalid action: cannot find paths through non-deterministic transition ${state} ---[ ${event} ]--> ${nextStates.join(', ')}[${this._fsm.name}]`);
+            }
+            nextStates.forEach(nextState => edges.push({ from: state, event, to: nextState }));
+        });
+        return edges;
+    }
+
+    private getStartState(fromState?: FsmState | number | string): FsmState {
+        if (typeof fromState !== "undefined") {
+            return this.resolveState(fromState, 'start').getInitialLeafState();
+        }
+        const initialState = this._fsm.getInitialState();
+        if (!initialState) {
+            throw new Error(`No initial state for ${this._fsm.name}`);
+        }
+        return initialState.getInitialLeafState();
+    }
+
+    private resolveState(state: FsmState | number | string, description: string): FsmState {
+        const stateObj = (state instanceof FsmState) ? state : this._fsm.getState(state);
+        if (!stateObj) {
+            throw new Error(`Invalid action: unknown ${description} state ${state}[${this._fsm.name}]`);
+        }
+        return stateObj;
+    }
+
+    private static createRandom(seed: number): () => number {
+        // mulberry32, the same seed always gives the same walk
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+}
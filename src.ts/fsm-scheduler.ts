@@ -0,0 +1,101 @@
+import { FsmEvent } from './fsm-event';
+import { FsmState } from './fsm-state';
+
+export type FsmTimerCallback = () => void;
+
+export interface FsmClock {
+    now(): number;
+}
+
+export interface FsmScheduler extends FsmClock {
+    schedule(callback: FsmTimerCallback, delayMs: number): number;
+    cancel(timerId: number): void;
+}
+
+export interface FsmPendingTimer {
+    tokenId: string;
+    fsmRegionName: string;
+    state: FsmState;
+    event: FsmEvent;
+    delayMs: number;
+    dueTime: number;
+}
+
+export class SystemScheduler implements FsmScheduler {
+
+    private _nextTimerId = 1;
+    private readonly _timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+    now() {
+        return Date.now();
+    }
+
+    schedule(callback: FsmTimerCallback, delayMs: number) {
+        const timerId = this._nextTimerId++;
+        this._timers.set(timerId, setTimeout(() => {
+            this._timers.delete(timerId);
+            callback();
+        }, delayMs));
+        return timerId;
+    }
+
+    cancel(timerId: number) {
+        const timer = this._timers.get(timerId);
+        if (timer) {
+            clearTimeout(timer);
+            this._timers.delete(timerId);
+        }
+    }
+
+}
+
+export class FakeClock implements FsmScheduler {
+
+    private _nextTimerId = 1;
+    private readonly _timers = new Map<number, { dueTime: number, callback: FsmTimerCallback }>();
+
+    constructor(private _now: number = 0) { }
+
+    get pendingTimerCount() {
+        return this._timers.size;
+    }
+
+    now() {
+        return this._now;
+    }
+
+    schedule(callback: FsmTimerCallback, delayMs: number) {
+        const timerId = this._nextTimerId++;
+        this._timers.set(timerId, { dueTime: this._now + Math.max(0, delayMs), callback });
+        return timerId;
+    }
+
+    cancel(timerId: number) {
+        this._timers.delete(timerId);
+    }
+
+    advance(ms: number) {
+        const targetTime = this._now + Math.max(0, ms);
+        // timers fire in due order, including the ones scheduled by earlier callbacks
+        for (let timerId = this.nextDueTimer(targetTime); timerId !== null; timerId = this.nextDueTimer(targetTime)) {
+            const timer = this._timers.get(timerId) as { dueTime: number, callback: FsmTimerCallback };
+            this._timers.delete(timerId);
+            this._now = timer.dueTime;
+            timer.callback();
+        }
+        this._now = targetTime;
+    }
+
+    private nextDueTimer(targetTime: number): number | null {
+        let nextTimerId: number | null = null;
+        let nextDueTime = targetTime;
+        for (const [timerId, timer] of this._timers) {
+            if (timer.dueTime < nextDueTime || (nextTimerId === null && timer.dueTime === nextDueTime)) {
+                nextTimerId = timerId;
+                nextDueTime = timer.dueTime;
+            }
+        }
+        return nextTimerId;
+    }
+
+}
@@ -0,0 +1,121 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmDeterminizer } from './fsm-determinization';
+import { FsmEvent } from './fsm-event';
+import { FsmState } from './fsm-state';
+
+export type FsmRunInput = FsmEvent | number | string;
+
+export interface FsmRunStep {
+    from: FsmState;
+    event: FsmEvent;
+    to: FsmState;
+}
+
+export interface FsmRunStuckPoint {
+    index: number;
+    state: FsmState;
+    event: FsmRunInput;
+    reason: 'unknown-event' | 'no-transition';
+}
+
+export interface FsmRunResult {
+    fsmName: string;
+    startState: FsmState;
+    currentState: FsmState;
+    trace: FsmRunStep[];
+    completed: boolean;
+    stuck: FsmRunStuckPoint | null;
+}
+
+export class FsmSimulator<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    run(events: Iterable<FsmRunInput>, fromState?: FsmState | number | string): FsmRunResult {
+        const result = this.startRun(fromState);
+        for (const input of events) {
+            if (!this.step(result, input)) {
+                break;
+            }
+        }
+        return result;
+    }
+
+    async runAsync(events: Iterable<FsmRunInput> | AsyncIterable<FsmRunInput>, fromState?: FsmState | number | string): Promise<FsmRunResult> {
+        const result = this.startRun(fromState);
+        // stopping at the stuck point also closes the source of the events
+        for await (const input of events) {
+            if (!this.step(result, input)) {
+                break;
+            }
+        }
+        return result;
+    }
+
+    accepts(events: Iterable<FsmRunInput>, acceptingStates?: Array<FsmState | number | string>): boolean {
+        // by default only the states added as final accept, a state without transitions is just a dead end
+        const acceptingStateObjs = acceptingStates
+            ? acceptingStates.map(state => this.resolveState(state, 'accepting'))
+            : this._fsm.states.filter(state => state.isMarkedFinal());
+
+        let currentStates = this.getInitialState().getEpsilonClosure();
+        for (const input of events) {
+            const event = (input instanceof FsmEvent) ? input : this._fsm.getEvent(input);
+            if (!event) {
+                return false;
+            }
+            const nextStates: FsmState[] = [];
+            currentStates.forEach(state => nextStates.push(...this._fsm.nextStates(state, event)));
+            currentStates = FsmDeterminizer.getEpsilonClosure(nextStates);
+            if (currentStates.length === 0) {
+                return false;
+            }
+        }
+        // a nested state is accepted when the state itself or one of its ancestors is accepting
+        return currentStates.some(state => [state, ...state.getAncestors()].some(activeState => acceptingStateObjs.includes(activeState)));
+    }
+
+    private startRun(fromState?: FsmState | number | string): FsmRunResult {
+        const startState = (typeof fromState === "undefined") ? this.getInitialState() : this.resolveState(fromState, 'start').getInitialLeafState();
+        return { fsmName: this._fsm.name, startState, currentState: startState, trace: [], completed: true, stuck: null };
+    }
+
+    private step(result: FsmRunResult, input: FsmRunInput): boolean {
+        const currentState = result.currentState;
+        const event = (input instanceof FsmEvent) ? input : this._fsm.getEvent(input);
+        // guarded transitions need a token to be evaluated with, a run only follows unguarded transitions
+        const nextStates = event ? this._fsm.nextStates(currentState, event) : [];
+        if (!event || nextStates.length === 0) {
+            result.completed = false;
+            result.stuck = { index: result.trace.length, state: currentState, event: event || input, reason: event ? 'no-transition' : 'unknown-event' };
+            return false;
+        }
+        if (nextStates.length > 1) {
+            throw new Error(`Invalid action: cannot run non-deterministic transition ${currentState} ---[ ${event} ]--> ${nextStates.join(', ')}[${this._fsm.name}]`);
+        }
+        result.trace.push({ from: currentState, event, to: nextStates[0] });
+        result.currentState = nextStates[0];
+        return true;
+    }
+
+    private getInitialState(): FsmState {
+        const initialState = this._fsm.getInitialState();
+        if (!initialState) {
+            throw new Error(`No initial state for ${this._fsm.name}`);
+        }
+        return initialState.getInitialLeafState();
+    }
+
+    private resolveState(state: FsmState | number | string, description: string): FsmState {
+        const stateObj = (state instanceof FsmState) ? state : this._fsm.getState(state);
+        if (!stateObj) {
+            throw new Error(`Invalid action: unknown ${description} state ${state}[${this._fsm.name}]`);
+        }
+        return stateObj;
+    }
+
+}
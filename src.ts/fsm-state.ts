@@ -1,23 +1,58 @@
 import { FsmEvent } from './fsm-event';
-
-export type MooreFunction = (currentState: FsmState) => void;
-export type MealyFunction = (currentState: FsmState, input: FsmEvent) => void;
-export type GeneralFunction = () => void;
-export type OutputFunction = GeneralFunction | MooreFunction | MealyFunction;
+import { FsmStateJson } from './fsm-json';
+
+export type MooreFunction = (currentState: FsmState) => void | Promise<void>;
+export type MealyFunction<TPayload = unknown> = (currentState: FsmState, input: FsmEvent<TPayload>) => void | Promise<void>;
+export type GeneralFunction = () => void | Promise<void>;
+// queues an event for the token, it is processed once the current transition has been committed
+export type FsmRaiseFunction = (onEvent: FsmEvent | number | string, payload?: unknown) => void;
+export type ContextFunction<TContext = unknown> = (currentState: FsmState, input: FsmEvent | null, context: TContext, raise: FsmRaiseFunction) => TContext | void | Promise<TContext | void>;
+// every output is called with the state, the event (null for entry actions run when a token is created), the token context
+// and the raise function, whatever parameters it declares. a value other than undefined it returns becomes the new context
+// a mealy output may expect the payload type of the event it is added for
+export type OutputFunction<TContext = unknown> = GeneralFunction | MooreFunction | MealyFunction<never> | ContextFunction<TContext>;
+export type FsmGuard<TContext = unknown> = (tokenId: string, currentState: FsmState, onEvent: FsmEvent, payload?: unknown, context?: TContext) => boolean;
+// states and the action registry keep outputs and guards of any context type, the context is only handed over when they run
+export type StoredOutputFunction = GeneralFunction | MooreFunction | MealyFunction<never> | ((currentState: FsmState, input: FsmEvent<never> | null, context: never, raise: FsmRaiseFunction) => unknown);
+export type StoredFsmGuard = FsmGuard<never>;
+export type FsmActionResult<TContext = unknown> = TContext | void | Promise<TContext | void>;
+export type FsmEventHandling = 'transition' | 'wildcard' | 'ignored' | 'default';
+
+export interface FsmTransition {
+    fromState: FsmState;
+    onEvent: FsmEvent;
+    nextState: FsmState;
+    output: StoredOutputFunction | null;
+    guard: StoredFsmGuard | null;
+}
+
+export interface FsmWildcardTransition {
+    fromState: FsmState;
+    nextState: FsmState;
+    output: StoredOutputFunction | null;
+    guard: StoredFsmGuard | null;
+}
 
 export class FsmState {
 
     private _initialStateRegionName: string | null = null;
-    private _transitionTable: Map<FsmEvent, FsmState> | null = null;
-    private _outputTable: Map<FsmEvent, OutputFunction | null> | null = null;
+    private _transitionTable: Map<FsmEvent, FsmTransition[]> | null = null;
+    private _entryAction: StoredOutputFunction | null = null;
+    private _exitAction: StoredOutputFunction | null = null;
+    private _parentState: FsmState | null = null;
+    private _initialChildState: FsmState | null = null;
+    private readonly _childStates: FsmState[] = [];
+    private readonly _epsilonTransitions: FsmState[] = [];
+    private readonly _eventDelays = new Map<FsmEvent, number>();
+    private readonly _ignoredEvents = new Set<FsmEvent>();
+    private _wildcardTransition: FsmWildcardTransition | null = null;
 
     constructor(private readonly _fsmName: string,
         private readonly _stateId: number,
         private readonly _stateName: string,
         private readonly _isFinalState: boolean = false,
         private _isDeterministic: boolean = true) {
-        this._transitionTable = this._isFinalState ? null : new Map<FsmEvent, FsmState>();
-        this._outputTable = this._isFinalState ? null : new Map<FsmEvent, OutputFunction>();
+        this._transitionTable = this._isFinalState ? null : new Map<FsmEvent, FsmTransition[]>();
     }
 
     get fsmName() {
@@ -76,26 +111,138 @@ export class FsmState {
         return this._initialStateRegionName;
     }
 
-    isFinalState() {
-        return (this._isFinalState || !this._transitionTable || this._transitionTable.size === 0);
+    get entryAction() {
+        return this._entryAction;
     }
 
-    executeOutput(input: FsmEvent): void {
-        const nextOutput = this.nextOutput(input);
-        if (typeof nextOutput === "undefined" || nextOutput == null) {
-            return;
+    get exitAction() {
+        return this._exitAction;
+    }
+
+    onEnter(action: StoredOutputFunction | null) {
+        this._entryAction = action;
+        return this;
+    }
+
+    onExit(action: StoredOutputFunction | null) {
+        this._exitAction = action;
+        return this;
+    }
+
+    get parentState() {
+        return this._parentState;
+    }
+
+    get initialChildState() {
+        return this._initialChildState;
+    }
+
+    get childStates() {
+        return [...this._childStates];
+    }
+
+    setParentState(parentState: FsmState | null) {
+        if (parentState) {
+            if (parentState._isFinalState) {
+                throw new Error(`Invalid action: final state cannot have child states: ${parentState}`);
+            }
+            if (parentState === this || parentState.isDescendantOf(this)) {
+                throw new Error(`Invalid action: cyclic state hierarchy: ${this} --> ${parentState}`);
+            }
         }
-        if (nextOutput.length === 0) {
-            (nextOutput as GeneralFunction)();
-        } else if (nextOutput.length === 1) {
-            (nextOutput as MooreFunction)(this);
-        } else if (nextOutput.length === 2 && input != null) {
-            (nextOutput as MealyFunction)(this, input);
+
+        if (this._parentState) {
+            const previousParent = this._parentState;
+            previousParent._childStates.splice(previousParent._childStates.indexOf(this), 1);
+            if (previousParent._initialChildState === this) {
+                previousParent._initialChildState = previousParent._childStates[0] || null;
+            }
+        }
+
+        this._parentState = parentState;
+        if (parentState) {
+            parentState._childStates.push(this);
+            if (!parentState._initialChildState) {
+                parentState._initialChildState = this;
+            }
         }
-        return;
+        return this;
     }
 
-    addTransition(onEvent: FsmEvent | null, nextState: FsmState | null, output?: OutputFunction) {
+    setInitialChildState(childState: FsmState) {
+        if (!childState || childState._parentState !== this) {
+            throw new Error(`Invalid action: ${childState} is not a child state of ${this}`);
+        }
+        this._initialChildState = childState;
+        return this;
+    }
+
+    isCompositeState() {
+        return this._childStates.length > 0;
+    }
+
+    isDescendantOf(ancestorState: FsmState) {
+        return this.getAncestors().includes(ancestorState);
+    }
+
+    getAncestors(): FsmState[] {
+        const ancestors: FsmState[] = [];
+        for (let state = this._parentState; state; state = state._parentState) {
+            ancestors.push(state);
+        }
+        return ancestors;
+    }
+
+    getInitialLeafPath(): FsmState[] {
+        const path: FsmState[] = [this];
+        for (let state = this._initialChildState; state; state = state._initialChildState) {
+            path.push(state);
+        }
+        return path;
+    }
+
+    getInitialLeafState(): FsmState {
+        const path = this.getInitialLeafPath();
+        return path[path.length - 1];
+    }
+
+    get statePath(): string {
+        return this._parentState ? `${this._parentState.statePath}/${this._stateName}` : this._stateName;
+    }
+
+    isMarkedFinal() {
+        return this._isFinalState;
+    }
+
+    isFinalState() {
+        if (this._isFinalState) {
+            return true;
+        }
+        if (this.isCompositeState()) {
+            return false;
+        }
+        // a nested state still handles the events bubbled up to its ancestors
+        for (let state: FsmState | null = this; state; state = state._parentState) {
+            if ((state._transitionTable && state._transitionTable.size > 0) || state._epsilonTransitions.length > 0 || state._wildcardTransition) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    executeOutput<TContext = unknown>(input: FsmEvent, nextOutput: StoredOutputFunction | null = this.nextOutput(input), context?: TContext, raise?: FsmRaiseFunction): FsmActionResult<TContext> {
+        return this.invokeAction(nextOutput, input, context, raise);
+    }
+
+    executeEntry<TContext = unknown>(input: FsmEvent | null, context?: TContext, raise?: FsmRaiseFunction): FsmActionResult<TContext> {
+        return this.invokeAction(this._entryAction, input, context, raise);
+    }
+
+    executeExit<TContext = unknown>(input: FsmEvent | null, context?: TContext, raise?: FsmRaiseFunction): FsmActionResult<TContext> {
+        return this.invokeAction(this._exitAction, input, context, raise);
+    }
+
+    addTransition(onEvent: FsmEvent | null, nextState: FsmState | null, output?: StoredOutputFunction, guard?: StoredFsmGuard) {
         if (this._isFinalState || !this._transitionTable) {
             throw new Error(`Invalid action: cannot add transition to final state: ${this.toString()}`);
         }
@@ -108,20 +255,33 @@ export class FsmState {
             throw new Error('Invalid action: cannot add transition for an invalid nextState');
         }
 
-        const currentEventTransition = this._transitionTable.get(onEvent);
-        if (currentEventTransition) {
-            if (currentEventTransition.equals(nextState)) {
-                return this;
-            }
-            throw new Error(`Invalid action: cannot add multiple transition for an event: ${onEvent} --. ${nextState}`);
+        if (this._ignoredEvents.has(onEvent)) {
+            throw new Error(`Invalid action: cannot add transition for an ignored event: ${onEvent} --> ${nextState}`);
+        }
+
+        const eventTransitions = this._transitionTable.get(onEvent) || [];
+        const currentEventTransitions = eventTransitions.filter(transition => transition.guard === (guard || null));
+        if (currentEventTransitions.some(transition => transition.nextState.equals(nextState))) {
+            return this;
+        }
+        // only a non-deterministic state may have several unguarded targets for the same event
+        if (currentEventTransitions.length > 0 && (guard || this._isDeterministic)) {
+            throw new Error(`Invalid action: cannot add multiple transition for an event${guard ? ' with the same guard' : ''}: ${onEvent} --. ${nextState}`);
         }
 
-        this._transitionTable.set(onEvent, nextState);
-        this._outputTable?.set(onEvent, output || null);
+        const newTransition: FsmTransition = { fromState: this, onEvent, nextState, output: output || null, guard: guard || null };
+        if (guard) {
+            // guarded transitions are evaluated in insertion order, before the unguarded transition of the event
+            const unguardedIndex = eventTransitions.findIndex(transition => !transition.guard);
+            eventTransitions.splice(unguardedIndex < 0 ? eventTransitions.length : unguardedIndex, 0, newTransition);
+        } else {
+            eventTransitions.push(newTransition);
+        }
+        this._transitionTable.set(onEvent, eventTransitions);
         return this;
     }
 
-    removeTransition(onEvent: FsmEvent | null) {
+    removeTransition(onEvent: FsmEvent | null, nextState?: FsmState) {
         if (this._isFinalState || !this._transitionTable) {
             throw new Error(`Invalid action: cannot remove transition for final state: ${this.toString()}`);
         }
@@ -130,68 +290,358 @@ export class FsmState {
             throw new Error('Invalid action: cannot remove transition for an invalid event');
         }
 
-        if (!this._transitionTable.has(onEvent)) {
-            throw new Error(`Invalid action: cannot remove non-existent transition for event: ${onEvent}`);
+        const eventTransitions = this._transitionTable.get(onEvent);
+        if (!eventTransitions || (nextState && !eventTransitions.some(transition => transition.nextState.equals(nextState)))) {
+            throw new Error(`Invalid action: cannot remove non-existent transition for event: ${onEvent}${nextState ? ` --> ${nextState}` : ''}`);
+        }
+
+        const remainingTransitions = nextState ? eventTransitions.filter(transition => !transition.nextState.equals(nextState)) : [];
+        if (remainingTransitions.length > 0) {
+            this._transitionTable.set(onEvent, remainingTransitions);
+        } else {
+            this._transitionTable.delete(onEvent);
+        }
+        return this;
+    }
+
+    get eventDelays(): Array<[FsmEvent, number]> {
+        return Array.from(this._eventDelays.entries());
+    }
+
+    getEventDelay(onEvent: FsmEvent): number | null {
+        return this._eventDelays.get(onEvent) ?? null;
+    }
+
+    scheduleEvent(onEvent: FsmEvent | null, delayMs: number) {
+        if (this._isFinalState) {
+            throw new Error(`Invalid action: cannot schedule event for final state: ${this.toString()}`);
+        }
+
+        if (!onEvent) {
+            throw new Error('Invalid action: cannot schedule an invalid event');
+        }
+
+        if (typeof delayMs !== "number" || !(delayMs >= 0)) {
+            throw new Error(`Invalid action: invalid delay ${delayMs}ms for event: ${onEvent}`);
+        }
+
+        this._eventDelays.set(onEvent, delayMs);
+        return this;
+    }
+
+    unscheduleEvent(onEvent: FsmEvent) {
+        this._eventDelays.delete(onEvent);
+        return this;
+    }
+
+    get wildcardTransition() {
+        return this._wildcardTransition;
+    }
+
+    setWildcardTransition(nextState: FsmState | null, output?: StoredOutputFunction, guard?: StoredFsmGuard) {
+        if (this._isFinalState || !this._transitionTable) {
+            throw new Error(`Invalid action: cannot add wildcard transition to final state: ${this.toString()}`);
+        }
+
+        if (!nextState) {
+            throw new Error('Invalid action: cannot add wildcard transition for an invalid nextState');
         }
 
-        this._transitionTable.delete(onEvent);
+        this._wildcardTransition = { fromState: this, nextState, output: output || null, guard: guard || null };
         return this;
     }
 
+    removeWildcardTransition() {
+        if (!this._wildcardTransition) {
+            throw new Error(`Invalid action: cannot remove non-existent wildcard transition: ${this.toString()}`);
+        }
+        this._wildcardTransition = null;
+        return this;
+    }
+
+    getWildcardTransition(onEvent: FsmEvent): FsmTransition | null {
+        // the wildcard only catches the events the state has no transition for and does not ignore
+        if (!this._wildcardTransition || this._ignoredEvents.has(onEvent) || this.getTransitionsOnEvent(onEvent).length > 0) {
+            return null;
+        }
+        return { ...this._wildcardTransition, onEvent };
+    }
+
+    get ignoredEvents() {
+        return Array.from(this._ignoredEvents);
+    }
+
+    ignoreEvent(onEvent: FsmEvent | null) {
+        if (this._isFinalState) {
+            throw new Error(`Invalid action: cannot ignore event for final state: ${this.toString()}`);
+        }
+
+        if (!onEvent) {
+            throw new Error('Invalid action: cannot ignore an invalid event');
+        }
+
+        if (this.getTransitionsOnEvent(onEvent).length > 0) {
+            throw new Error(`Invalid action: cannot ignore event with transitions: ${this.toString()} ---[ ${onEvent} ]`);
+        }
+
+        this._ignoredEvents.add(onEvent);
+        return this;
+    }
+
+    unignoreEvent(onEvent: FsmEvent) {
+        this._ignoredEvents.delete(onEvent);
+        return this;
+    }
+
+    getEventHandling(onEvent: FsmEvent): Exclude<FsmEventHandling, 'default'> | null {
+        // the closest state declaring any handling of the event decides
+        for (const state of this.getEventHandlingStates()) {
+            if (state.getTransitionsOnEvent(onEvent).length > 0) {
+                return 'transition';
+            }
+            if (state._ignoredEvents.has(onEvent)) {
+                return 'ignored';
+            }
+            if (state._wildcardTransition) {
+                return 'wildcard';
+            }
+        }
+        return null;
+    }
+
+    get epsilonTransitions() {
+        return [...this._epsilonTransitions];
+    }
+
+    addEpsilonTransition(nextState: FsmState | null) {
+        if (this._isFinalState) {
+            throw new Error(`Invalid action: cannot add transition to final state: ${this.toString()}`);
+        }
+
+        if (!nextState) {
+            throw new Error('Invalid action: cannot add epsilon transition for an invalid nextState');
+        }
+
+        if (!this._epsilonTransitions.includes(nextState)) {
+            this._epsilonTransitions.push(nextState);
+        }
+        return this;
+    }
+
+    removeEpsilonTransition(nextState: FsmState) {
+        const index = this._epsilonTransitions.indexOf(nextState);
+        if (index < 0) {
+            throw new Error(`Invalid action: cannot remove non-existent epsilon transition: ${this} --> ${nextState}`);
+        }
+        this._epsilonTransitions.splice(index, 1);
+        return this;
+    }
+
+    getEpsilonClosure(): FsmState[] {
+        const closure: FsmState[] = [this];
+        for (let index = 0; index < closure.length; index++) {
+            closure[index].getEventHandlingStates().forEach(state => {
+                state._epsilonTransitions.forEach(epsilonState => {
+                    const leafState = epsilonState.getInitialLeafState();
+                    if (!closure.includes(leafState)) {
+                        closure.push(leafState);
+                    }
+                });
+            });
+        }
+        return closure;
+    }
+
+    nextStates(onEvent: FsmEvent, tokenId?: string, payload?: unknown, context?: unknown): FsmState[] {
+        // guarded transitions are only followed when a token is given to evaluate the guard with
+        for (const state of this.getEventHandlingStates()) {
+            const wildcardTransition = state.getWildcardTransition(onEvent);
+            const transitions = [...state.getTransitionsOnEvent(onEvent), ...(wildcardTransition ? [wildcardTransition] : [])]
+                .filter(transition => !transition.guard || (typeof tokenId === "string" && (transition.guard as FsmGuard)(tokenId, this, onEvent, payload, context)));
+            if (transitions.length > 0) {
+                return transitions.map(transition => transition.nextState.getInitialLeafState());
+            }
+            if (state._ignoredEvents.has(onEvent)) {
+                return [this];
+            }
+        }
+        return [];
+    }
+
+    hasMultipleTargets(onEvent?: FsmEvent) {
+        const events = onEvent ? [onEvent] : [...(this._transitionTable?.keys() || [])];
+        return events.some(event => this.getTransitionsOnEvent(event).filter(transition => !transition.guard).length > 1);
+    }
+
     isTransitionValid(onEvent: FsmEvent) {
-        return this.nextState(onEvent) !== null;
+        return this.getTransitionsOnEvent(onEvent).length > 0 || !!this.getWildcardTransition(onEvent);
+    }
+
+    isGuardedTransition(onEvent: FsmEvent) {
+        return this.getTransitionsOnEvent(onEvent).some(transition => !!transition.guard) || !!this.getWildcardTransition(onEvent)?.guard;
+    }
+
+    nextTransition(tokenId: string, onEvent: FsmEvent, payload?: unknown, context?: unknown, currentState: FsmState = this): FsmTransition | null {
+        const wildcardTransition = this.getWildcardTransition(onEvent);
+        for (const transition of [...this.getTransitionsOnEvent(onEvent), ...(wildcardTransition ? [wildcardTransition] : [])]) {
+            if (!transition.guard || (transition.guard as FsmGuard)(tokenId, currentState, onEvent, payload, context)) {
+                return transition;
+            }
+        }
+        return null;
+    }
+
+    getEventHandlingStates(): FsmState[] {
+        return this._isFinalState ? [this] : [this, ...this.getAncestors()];
+    }
+
+    findTransition(tokenId: string, onEvent: FsmEvent, payload?: unknown, context?: unknown): FsmTransition | null {
+        // guards of ancestor transitions still get the active leaf state, the transition itself tells where it is defined
+        for (const state of this.getEventHandlingStates()) {
+            const transition = state.nextTransition(tokenId, onEvent, payload, context, this);
+            if (transition) {
+                return transition;
+            }
+            if (state._ignoredEvents.has(onEvent)) {
+                break;
+            }
+        }
+        return null;
     }
 
     nextState(onEvent: FsmEvent): FsmState | null {
-        if (this._isFinalState || !this._transitionTable || !onEvent) { return null; }
-        return this._transitionTable.get(onEvent) || null;
+        return this.getUnguardedTransition(onEvent)?.nextState || null;
     }
 
-    nextOutput(onEvent: FsmEvent): OutputFunction | null {
-        if (this._isFinalState || !this._outputTable || !onEvent) { return null; }
-        return this._outputTable.get(onEvent) || null;
+    nextOutput(onEvent: FsmEvent): StoredOutputFunction | null {
+        return this.getUnguardedTransition(onEvent)?.output || null;
     }
 
     hasNextStateOnEvent(onEvent: FsmEvent, nextState: FsmState) {
-        if (!this._transitionTable || !onEvent || !nextState) { return false; }
-        return nextState.equals(this._transitionTable.get(onEvent));
+        if (!nextState) { return false; }
+        return this.getTransitionsOnEvent(onEvent).some(transition => nextState.equals(transition.nextState));
     }
 
     hasNextTransition(nextState: FsmState) {
-        if (!this._transitionTable || !nextState) { return false; }
+        if (!nextState) { return false; }
+        return this.getTransitions().some(transition => transition.nextState.equals(nextState));
+    }
 
-        for (const state of this._transitionTable.values()) {
-            if (state.equals(nextState)) { return true; }
+    getTransitionsOnEvent(onEvent: FsmEvent): FsmTransition[] {
+        if (this._isFinalState || !this._transitionTable || !onEvent) { return []; }
+        return this._transitionTable.get(onEvent) || [];
+    }
+
+    getTransitions(): FsmTransition[] {
+        const transitions: FsmTransition[] = [];
+        this._transitionTable?.forEach(eventTransitions => {
+            transitions.push(...eventTransitions);
+        });
+        return transitions;
+    }
+
+    private invokeAction<TContext>(action: StoredOutputFunction | null, input: FsmEvent | null, context?: TContext, raise: FsmRaiseFunction = FsmState.rejectRaise): FsmActionResult<TContext> {
+        if (typeof action === "undefined" || action == null) {
+            return;
         }
-        return false;
+        return (action as ContextFunction<TContext>)(this, input, context as TContext, raise);
+    }
+
+    private static rejectRaise(onEvent: FsmEvent | number | string) {
+        throw new Error(`Invalid action: cannot raise ${onEvent} outside of a run-to-completion transition`);
+    }
+
+    private getUnguardedTransition(onEvent: FsmEvent): FsmTransition | null {
+        const wildcardTransition = this.getWildcardTransition(onEvent);
+        return this.getTransitionsOnEvent(onEvent).find(transition => !transition.guard) || ((wildcardTransition && !wildcardTransition.guard) ? wildcardTransition : null);
     }
 
     get transitionTableSize() {
         return (this._transitionTable ? this._transitionTable.size : 0);
     }
 
-    getStateTableString(separator?: string) {
+    getStateTableString(separator?: string, guardName?: (guard: StoredFsmGuard) => string | null) {
         if (!separator) {
             separator = '';
         }
-        if (!this._transitionTable || this.isFinalState()) {
+        if (!this._transitionTable || (this.isFinalState() && this._ignoredEvents.size === 0)) {
             return `${this.toString()} ---[X]\n`;
         }
 
         let stateTable = '';
-        this._transitionTable.forEach((nextState, event) => {
+        if (this._initialChildState) {
+            stateTable += `${this.toString()} ---[ *initial* ]--> ${this._initialChildState}\n`;
+        }
+        this.getTransitions().forEach(transition => {
+            if (stateTable) {
+                stateTable += '\t';
+            }
+            const guardInfo = transition.guard ? ` [${guardName?.(transition.guard) || transition.guard.name || 'guard'}]` : '';
+            const delayInfo = this._eventDelays.has(transition.onEvent) ? ` after ${this._eventDelays.get(transition.onEvent)}ms` : '';
+            stateTable += `${this.toString()} ---[ ${transition.onEvent}${guardInfo}${delayInfo} ]--> ${transition.nextState}\n`;
+        });
+        this._epsilonTransitions.forEach(epsilonState => {
+            if (stateTable) {
+                stateTable += '\t';
+            }
+            stateTable += `${this.toString()} ---[ *epsilon* ]--> ${epsilonState}\n`;
+        });
+        if (this._wildcardTransition) {
+            if (stateTable) {
+                stateTable += '\t';
+            }
+            const wildcardGuard = this._wildcardTransition.guard;
+            const guardInfo = wildcardGuard ? ` [${guardName?.(wildcardGuard) || wildcardGuard.name || 'guard'}]` : '';
+            stateTable += `${this.toString()} ---[ *any*${guardInfo} ]--> ${this._wildcardTransition.nextState}\n`;
+        }
+        this._ignoredEvents.forEach(ignoredEvent => {
             if (stateTable) {
                 stateTable += '\t';
             }
-            stateTable += `${this.toString()} ---[ ${event} ]--> ${nextState}\n`;
+            stateTable += `${this.toString()} ---[ ${ignoredEvent} *ignored* ]\n`;
         });
         return stateTable;
     }
 
+    static copyStates(states: FsmState[]): Map<number, FsmState> {
+        // transitions, hierarchy and actions are rebuilt between the copies, events and functions are shared
+        const copies = new Map(states.map(state => [state._stateId, new FsmState(state._fsmName, state._stateId, state._stateName, state._isFinalState, state._isDeterministic)]));
+        const copyOf = (state: FsmState) => copies.get(state._stateId) as FsmState;
+        states.forEach(state => {
+            const copy = copyOf(state);
+            copy._initialStateRegionName = state._initialStateRegionName;
+            copy._entryAction = state._entryAction;
+            copy._exitAction = state._exitAction;
+            state._childStates.forEach(childState => copyOf(childState).setParentState(copy));
+            state.getTransitions().forEach(transition => copy.addTransition(transition.onEvent, copyOf(transition.nextState), transition.output || undefined, transition.guard || undefined));
+            state._epsilonTransitions.forEach(nextState => copy._epsilonTransitions.push(copyOf(nextState)));
+            state._eventDelays.forEach((delayMs, event) => copy._eventDelays.set(event, delayMs));
+            state._ignoredEvents.forEach(event => copy._ignoredEvents.add(event));
+            if (state._wildcardTransition) {
+                const { nextState, output, guard } = state._wildcardTransition;
+                copy._wildcardTransition = { fromState: copy, nextState: copyOf(nextState), output, guard };
+            }
+        });
+        states.forEach(state => {
+            state._initialChildState && copyOf(state).setInitialChildState(copyOf(state._initialChildState));
+        });
+        return copies;
+    }
+
+    toJSON(): FsmStateJson {
+        return {
+            id: this._stateId,
+            name: this._stateName,
+            final: this._isFinalState,
+            deterministic: this._isDeterministic,
+        };
+    }
+
     toString() {
         const initialStateInfo = this.isInitialState() ? `:IS@${this.initialStateRegionName}` : '';
         const finalStateInfo = this.isFinalState() ? ':FS' : '';
-        return `${this.stateName}(${this.stateId}${initialStateInfo}${finalStateInfo})`;
+        const compositeStateInfo = this.isCompositeState() ? ':CS' : '';
+        return `${this.statePath}(${this.stateId}${initialStateInfo}${finalStateInfo}${compositeStateInfo})`;
     }
 
 }
\ No newline at end of file
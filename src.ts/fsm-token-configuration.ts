@@ -0,0 +1,55 @@
+import { FsmState } from './fsm-state';
+
+export class FsmTokenConfiguration {
+
+    constructor(private readonly _tokenId: string, private readonly _regionStates: Map<string, FsmState>) {
+        if (_regionStates.size === 0) {
+            throw new Error(`Invalid action: token instance ${_tokenId} has no active region`);
+        }
+    }
+
+    get tokenId() {
+        return this._tokenId;
+    }
+
+    get regionNames() {
+        return Array.from(this._regionStates.keys());
+    }
+
+    get states() {
+        return Array.from(this._regionStates.values());
+    }
+
+    get primaryRegionName(): string {
+        return this._regionStates.keys().next().value as string;
+    }
+
+    get primaryState(): FsmState {
+        return this._regionStates.values().next().value as FsmState;
+    }
+
+    entries() {
+        return this._regionStates.entries();
+    }
+
+    getState(fsmRegionName: string): FsmState | null {
+        return this._regionStates.get(fsmRegionName) || null;
+    }
+
+    isInState(state: FsmState | number | string) {
+        return this.states.some(activeState => activeState.equals(state) || activeState.getAncestors().some(ancestor => ancestor.equals(state)));
+    }
+
+    isFinalState() {
+        return this.states.every(state => state.isFinalState());
+    }
+
+    toString() {
+        const regionStates: string[] = [];
+        this._regionStates.forEach((state, fsmRegionName) => {
+            regionStates.push(`${fsmRegionName}:${state}`);
+        });
+        return `${this._tokenId}[${regionStates.join(', ')}]`;
+    }
+
+}
@@ -0,0 +1,167 @@
+export type FsmTokenExpiryReason = 'ttl' | 'idle';
+
+class FsmDeadlineQueue {
+
+    // a min-heap on the timestamps, entries left behind by a later touch or a delete are dropped once they reach the top
+    private readonly _timestamps = new Map<string, number>();
+    private _heap: Array<[number, string]> = [];
+
+    has(tokenId: string) {
+        return this._timestamps.has(tokenId);
+    }
+
+    set(tokenId: string, timestamp: number) {
+        if (this._timestamps.get(tokenId) === timestamp) {
+            return;
+        }
+        this._timestamps.set(tokenId, timestamp);
+        this.push([timestamp, tokenId]);
+        if (this._heap.length > 2 * this._timestamps.size + 32) {
+            this.compact();
+        }
+    }
+
+    delete(tokenId: string) {
+        return this._timestamps.delete(tokenId);
+    }
+
+    clear() {
+        this._timestamps.clear();
+        this._heap = [];
+    }
+
+    peek(): number | null {
+        while (this._heap.length > 0 && this.isStale(this._heap[0])) {
+            this.pop();
+        }
+        return (this._heap.length > 0) ? this._heap[0][0] : null;
+    }
+
+    getDue(dueTime: number): string[] {
+        const dueEntries: Array<[number, string]> = [];
+        while (this.peek() !== null && this._heap[0][0] <= dueTime) {
+            dueEntries.push(this.pop());
+        }
+        // due tokens stay queued until they are deleted
+        dueEntries.forEach(entry => this.push(entry));
+        return dueEntries.map(([, tokenId]) => tokenId);
+    }
+
+    private isStale([timestamp, tokenId]: [number, string]) {
+        return this._timestamps.get(tokenId) !== timestamp;
+    }
+
+    private compact() {
+        this._heap = [];
+        this._timestamps.forEach((timestamp, tokenId) => this.push([timestamp, tokenId]));
+    }
+
+    private push(entry: [number, string]) {
+        const heap = this._heap;
+        let index = heap.push(entry) - 1;
+        while (index > 0) {
+            const parentIndex = (index - 1) >> 1;
+            if (heap[parentIndex][0] <= entry[0]) {
+                break;
+            }
+            heap[index] = heap[parentIndex];
+            index = parentIndex;
+        }
+        heap[index] = entry;
+    }
+
+    private pop(): [number, string] {
+        const heap = this._heap;
+        const top = heap[0];
+        const last = heap.pop() as [number, string];
+        if (heap.length > 0) {
+            let index = 0;
+            for (let childIndex = 1; childIndex < heap.length; childIndex = 2 * index + 1) {
+                if (childIndex + 1 < heap.length && heap[childIndex + 1][0] < heap[childIndex][0]) {
+                    childIndex++;
+                }
+                if (heap[childIndex][0] >= last[0]) {
+                    break;
+                }
+                heap[index] = heap[childIndex];
+                index = childIndex;
+            }
+            heap[index] = last;
+        }
+        return top;
+    }
+
+}
+
+export class FsmTokenExpiry {
+
+    private readonly _createdAt = new FsmDeadlineQueue();
+    private readonly _activeAt = new FsmDeadlineQueue();
+
+    constructor(private _timeToLive: number = 0, private _idleTimeout: number = 0) { }
+
+    get timeToLive() {
+        return this._timeToLive;
+    }
+
+    set timeToLive(timeToLive: number) {
+        this._timeToLive = Math.max(0, timeToLive);
+    }
+
+    get idleTimeout() {
+        return this._idleTimeout;
+    }
+
+    set idleTimeout(idleTimeout: number) {
+        this._idleTimeout = Math.max(0, idleTimeout);
+    }
+
+    get isEnabled() {
+        return this._timeToLive > 0 || this._idleTimeout > 0;
+    }
+
+    touch(tokenId: string, now: number, isNewToken = false) {
+        if (isNewToken || !this._createdAt.has(tokenId)) {
+            this._createdAt.set(tokenId, now);
+        }
+        this._activeAt.set(tokenId, now);
+    }
+
+    delete(tokenId: string) {
+        this._activeAt.delete(tokenId);
+        return this._createdAt.delete(tokenId);
+    }
+
+    clear() {
+        this._createdAt.clear();
+        this._activeAt.clear();
+    }
+
+    nextDueTime(): number | null {
+        if (!this.isEnabled) {
+            return null;
+        }
+        const dueTimes: number[] = [];
+        const oldestCreated = this._createdAt.peek();
+        if (this._timeToLive > 0 && oldestCreated !== null) {
+            dueTimes.push(oldestCreated + this._timeToLive);
+        }
+        const oldestActive = this._activeAt.peek();
+        if (this._idleTimeout > 0 && oldestActive !== null) {
+            dueTimes.push(oldestActive + this._idleTimeout);
+        }
+        return (dueTimes.length > 0) ? Math.min(...dueTimes) : null;
+    }
+
+    getExpired(now: number): Array<[string, FsmTokenExpiryReason]> {
+        const expired = new Map<string, FsmTokenExpiryReason>();
+        if (this._timeToLive > 0) {
+            this._createdAt.getDue(now - this._timeToLive).forEach(tokenId => expired.set(tokenId, 'ttl'));
+        }
+        if (this._idleTimeout > 0) {
+            this._activeAt.getDue(now - this._idleTimeout).forEach(tokenId => expired.has(tokenId) || expired.set(tokenId, 'idle'));
+        }
+        return Array.from(expired.entries());
+    }
+
+}
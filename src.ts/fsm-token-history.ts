@@ -0,0 +1,81 @@
+export interface FsmTokenHistoryEntry {
+    tokenId: string;
+    from: { [fsmRegionName: string]: number };
+    event: number | string | null;
+    to: { [fsmRegionName: string]: number };
+    timestamp: number;
+    success: boolean;
+    error?: string;
+    // raised by an action during a run-to-completion step, not sent from outside
+    raised?: boolean;
+}
+
+export class FsmTokenHistory {
+
+    private readonly _entries = new Map<string, FsmTokenHistoryEntry[]>();
+
+    constructor(private _limit: number = 0) { }
+
+    get limit() {
+        return this._limit;
+    }
+
+    set limit(limit: number) {
+        this._limit = Math.max(0, limit);
+        this._entries.forEach((entries, tokenId) => this.trim(tokenId, entries));
+    }
+
+    get tokenIds() {
+        return Array.from(this._entries.keys());
+    }
+
+    record(entry: FsmTokenHistoryEntry) {
+        if (this._limit <= 0) {
+            return;
+        }
+        const entries = this._entries.get(entry.tokenId) || [];
+        entries.push(entry);
+        this._entries.set(entry.tokenId, entries);
+        this.trim(entry.tokenId, entries);
+    }
+
+    get(tokenId: string): FsmTokenHistoryEntry[] {
+        return [...(this._entries.get(tokenId) || [])];
+    }
+
+    set(tokenId: string, entries: FsmTokenHistoryEntry[]) {
+        if (entries.length === 0) {
+            this._entries.delete(tokenId);
+            return;
+        }
+        const tokenEntries = [...entries];
+        this._entries.set(tokenId, tokenEntries);
+        this.trim(tokenId, tokenEntries);
+    }
+
+    delete(tokenId: string) {
+        return this._entries.delete(tokenId);
+    }
+
+    clear() {
+        this._entries.clear();
+    }
+
+    toJSON(tokenId?: string): FsmTokenHistoryEntry[] {
+        const entries: FsmTokenHistoryEntry[] = [];
+        (tokenId ? [tokenId] : this.tokenIds).forEach(id => {
+            this.get(id).forEach(entry => entries.push({ ...entry, from: { ...entry.from }, to: { ...entry.to } }));
+        });
+        return entries.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private trim(tokenId: string, entries: FsmTokenHistoryEntry[]) {
+        // the oldest entries are dropped first once a token exceeds the retention limit
+        if (this._limit <= 0) {
+            this._entries.delete(tokenId);
+        } else if (entries.length > this._limit) {
+            entries.splice(0, entries.length - this._limit);
+        }
+    }
+
+}
@@ -0,0 +1,63 @@
+export class FsmTokenIndex {
+
+    private readonly _tokenStates = new Map<string, number[]>();
+    private readonly _stateTokens = new Map<number, Set<string>>();
+
+    get size() {
+        return this._tokenStates.size;
+    }
+
+    has(tokenId: string) {
+        return this._tokenStates.has(tokenId);
+    }
+
+    set(tokenId: string, stateIds: number[]) {
+        this.removeFromStates(tokenId);
+        const uniqueStateIds = Array.from(new Set(stateIds));
+        this._tokenStates.set(tokenId, uniqueStateIds);
+        uniqueStateIds.forEach(stateId => {
+            const tokenIds = this._stateTokens.get(stateId) || new Set<string>();
+            tokenIds.add(tokenId);
+            this._stateTokens.set(stateId, tokenIds);
+        });
+    }
+
+    delete(tokenId: string) {
+        this.removeFromStates(tokenId);
+        return this._tokenStates.delete(tokenId);
+    }
+
+    clear() {
+        this._tokenStates.clear();
+        this._stateTokens.clear();
+    }
+
+    tokenIds() {
+        return this._tokenStates.keys();
+    }
+
+    getTokenIds(stateId: number): string[] {
+        return Array.from(this._stateTokens.get(stateId) || []);
+    }
+
+    countTokens(stateId: number) {
+        return this._stateTokens.get(stateId)?.size || 0;
+    }
+
+    countByState(): Map<number, number> {
+        const counts = new Map<number, number>();
+        this._stateTokens.forEach((tokenIds, stateId) => counts.set(stateId, tokenIds.size));
+        return counts;
+    }
+
+    private removeFromStates(tokenId: string) {
+        (this._tokenStates.get(tokenId) || []).forEach(stateId => {
+            const tokenIds = this._stateTokens.get(stateId);
+            tokenIds?.delete(tokenId);
+            if (tokenIds?.size === 0) {
+                this._stateTokens.delete(stateId);
+            }
+        });
+    }
+
+}
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+
+export interface FsmTokenRecord {
+    states: { [fsmRegionName: string]: number };
+    stateSets?: { [fsmRegionName: string]: number[] };
+    context?: unknown;
+    version?: number;
+}
+
+export interface TokenStore {
+    readonly size: number;
+    has(tokenId: string): boolean;
+    get(tokenId: string): FsmTokenRecord | null;
+    set(tokenId: string, record: FsmTokenRecord): void;
+    delete(tokenId: string): boolean;
+    clear(): void;
+    entries(): IterableIterator<[string, FsmTokenRecord]>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+
+    protected readonly _records = new Map<string, FsmTokenRecord>();
+
+    get size() {
+        return this._records.size;
+    }
+
+    has(tokenId: string) {
+        return this._records.has(tokenId);
+    }
+
+    get(tokenId: string): FsmTokenRecord | null {
+        return this._records.get(tokenId) || null;
+    }
+
+    set(tokenId: string, record: FsmTokenRecord) {
+        this._records.set(tokenId, record);
+    }
+
+    delete(tokenId: string) {
+        return this._records.delete(tokenId);
+    }
+
+    clear() {
+        this._records.clear();
+    }
+
+    entries() {
+        return this._records.entries();
+    }
+
+}
+
+export class FileTokenStore extends MemoryTokenStore {
+
+    private _flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private _lastFlushError: unknown = null;
+    // a batched flush runs outside of any caller, its errors are reported here instead of thrown
+    onFlushError: ((error: unknown) => void) | null = null;
+
+    constructor(private readonly _filePath: string, private _autoFlush = true, private _flushDelayMs = 0) {
+        super();
+        if (!_filePath?.trim()) {
+            throw new Error('Invalid action: invalid filePath');
+        }
+        this._flushDelayMs = Math.max(0, _flushDelayMs);
+        this.load();
+    }
+
+    get filePath() {
+        return this._filePath;
+    }
+
+    get autoFlush() {
+        return this._autoFlush;
+    }
+
+    set autoFlush(autoFlush: boolean) {
+        this._autoFlush = autoFlush;
+    }
+
+    get flushDelayMs() {
+        return this._flushDelayMs;
+    }
+
+    set flushDelayMs(flushDelayMs: number) {
+        this._flushDelayMs = Math.max(0, flushDelayMs);
+    }
+
+    get hasPendingFlush() {
+        return this._flushTimer !== null;
+    }
+
+    get lastFlushError() {
+        return this._lastFlushError;
+    }
+
+    set(tokenId: string, record: FsmTokenRecord) {
+        super.set(tokenId, record);
+        this.scheduleFlush();
+    }
+
+    delete(tokenId: string) {
+        const deleted = super.delete(tokenId);
+        deleted && this.scheduleFlush();
+        return deleted;
+    }
+
+    clear() {
+        super.clear();
+        this.scheduleFlush();
+    }
+
+    private scheduleFlush() {
+        if (!this._autoFlush) {
+            return;
+        }
+        // changes are written right away unless batching is asked for with a flush delay
+        if (this._flushDelayMs === 0) {
+            this.flush();
+            return;
+        }
+        if (this._flushTimer) {
+            return;
+        }
+        this._flushTimer = setTimeout(() => {
+            this._flushTimer = null;
+            try {
+                this.flush();
+            } catch (error) {
+                this._lastFlushError = error;
+                this.onFlushError?.(error);
+            }
+        }, this._flushDelayMs);
+    }
+
+    load() {
+        this._records.clear();
+        if (!fs.existsSync(this._filePath)) {
+            return;
+        }
+        const content = fs.readFileSync(this._filePath, 'utf8');
+        if (!content.trim()) {
+            return;
+        }
+        const records = JSON.parse(content);
+        if (!records || typeof records !== "object" || Array.isArray(records)) {
+            throw new Error(`Invalid token store file: ${this._filePath}`);
+        }
+        for (const [tokenId, record] of Object.entries<unknown>(records)) {
+            if (!FileTokenStore.isTokenRecord(record)) {
+                throw new Error(`Invalid token store file: ${this._filePath}, invalid record for token ${tokenId}`);
+            }
+            this._records.set(tokenId, record);
+        }
+    }
+
+    flush() {
+        if (this._flushTimer) {
+            clearTimeout(this._flushTimer);
+            this._flushTimer = null;
+        }
+        const records: { [tokenId: string]: FsmTokenRecord } = {};
+        this._records.forEach((record, tokenId) => {
+            records[tokenId] = record;
+        });
+        const tmpFilePath = `${this._filePath}.tmp`;
+        fs.writeFileSync(tmpFilePath, JSON.stringify(records));
+        fs.renameSync(tmpFilePath, this._filePath);
+        this._lastFlushError = null;
+    }
+
+    private static isTokenRecord(record: unknown): record is FsmTokenRecord {
+        const isObject = (value: unknown): value is { [key: string]: unknown } => !!value && typeof value === 'object' && !Array.isArray(value);
+        if (!isObject(record) || !isObject(record.states) || !Object.values(record.states).every(stateId => typeof stateId === 'number')) {
+            return false;
+        }
+        if (record.stateSets !== undefined && (!isObject(record.stateSets) || !Object.values(record.stateSets).every(stateIds => Array.isArray(stateIds) && stateIds.every(stateId => typeof stateId === 'number')))) {
+            return false;
+        }
+        return record.version === undefined || typeof record.version === 'number';
+    }
+
+}
@@ -0,0 +1,176 @@
+import { FiniteStateMachine } from './finite-state-machine';
+import { FsmEvent } from './fsm-event';
+import { FsmEventHandling, FsmState } from './fsm-state';
+
+export interface FsmValidationOptions {
+    throwOnError?: boolean;
+    warningsAsErrors?: boolean;
+}
+
+export interface FsmMissingTransition {
+    state: FsmState;
+    event: FsmEvent;
+}
+
+export interface FsmImplicitHandling {
+    state: FsmState;
+    event: FsmEvent;
+    handling: Exclude<FsmEventHandling, 'transition'>;
+}
+
+export interface FsmValidationReport {
+    fsmName: string;
+    isValid: boolean;
+    unreachableStates: FsmState[];
+    trapStates: FsmState[];
+    unusedEvents: FsmEvent[];
+    unneededNonDeterministicStates: FsmState[];
+    missingTransitions: FsmMissingTransition[];
+    implicitHandlings: FsmImplicitHandling[];
+    errors: string[];
+    warnings: string[];
+}
+
+export class FsmValidator<TContext = unknown> {
+
+    constructor(private readonly _fsm: FiniteStateMachine<TContext>) { }
+
+    get fsm() {
+        return this._fsm;
+    }
+
+    validate(options: FsmValidationOptions = {}): FsmValidationReport {
+        const states = this._fsm.states;
+        const leafStates = states.filter(state => !state.isCompositeState());
+
+        const reachableStates = this.getReachableStates();
+        const unreachableStates = states.filter(state => !reachableStates.has(state));
+
+        const finalStates = leafStates.filter(state => state.isFinalState());
+        const finalReachingStates = this.getStatesReaching(finalStates);
+        const trapStates = (finalStates.length === 0) ? [] : leafStates.filter(state => !state.isFinalState() && !finalReachingStates.has(state));
+
+        const usedEvents = new Set<FsmEvent>();
+        const targetStates = new Set<FsmState>();
+        states.forEach(state => {
+            state.getTransitions().forEach(transition => {
+                usedEvents.add(transition.onEvent);
+                targetStates.add(transition.nextState);
+            });
+            state.ignoredEvents.forEach(event => usedEvents.add(event));
+            state.wildcardTransition && targetStates.add(state.wildcardTransition.nextState);
+        });
+        const defaultTransition = this._fsm.defaultTransition;
+        defaultTransition && targetStates.add(defaultTransition.nextState);
+        const missingTransitions: FsmMissingTransition[] = [];
+        const implicitHandlings: FsmImplicitHandling[] = [];
+        leafStates.filter(state => !state.isFinalState()).forEach(state => {
+            this._fsm.events.forEach(event => {
+                const handling = this._fsm.getEventHandling(state, event);
+                if (!handling) {
+                    missingTransitions.push({ state, event });
+                } else if (handling !== 'transition') {
+                    implicitHandlings.push({ state, event, handling });
+                    usedEvents.add(event);
+                }
+            });
+        });
+        const unusedEvents = this._fsm.events.filter(event => !usedEvents.has(event));
+        const unneededNonDeterministicStates = states.filter(state => !state.isDeterministic() && !targetStates.has(state) && !state.hasMultipleTargets());
+
+        const errors = [
+            ...unreachableStates.map(state => `unreachable state ${state}`),
+            ...trapStates.map(state => `trap state ${state} cannot reach a final state`),
+        ];
+        const warnings = [
+            ...unusedEvents.map(event => `unused event ${event}`),
+            ...unneededNonDeterministicStates.map(state => `non-deterministic state ${state} is never a transition target and has no event with several targets`),
+            ...missingTransitions.map(({ state, event }) => `no transition for ${state} ---[ ${event} ]`),
+        ];
+        if (options.warningsAsErrors) {
+            errors.push(...warnings.splice(0, warnings.length));
+        }
+
+        const report: FsmValidationReport = {
+            fsmName: this._fsm.name,
+            isValid: errors.length === 0,
+            unreachableStates,
+            trapStates,
+            unusedEvents,
+            unneededNonDeterministicStates,
+            missingTransitions,
+            implicitHandlings,
+            errors,
+            warnings,
+        };
+        if (options.throwOnError && !report.isValid) {
+            throw new Error(`Invalid FSM ${this._fsm.name}: ${errors.join('; ')}`);
+        }
+        return report;
+    }
+
+    private getSuccessorStates(state: FsmState): FsmState[] {
+        const successorStates: FsmState[] = [];
+        state.getEventHandlingStates().forEach(handlingState => {
+            handlingState.getTransitions().forEach(transition => {
+                successorStates.push(transition.nextState.getInitialLeafState());
+            });
+            handlingState.epsilonTransitions.forEach(epsilonState => {
+                successorStates.push(epsilonState.getInitialLeafState());
+            });
+            handlingState.wildcardTransition && successorStates.push(handlingState.wildcardTransition.nextState.getInitialLeafState());
+        });
+        const defaultTransition = this._fsm.defaultTransition;
+        if (defaultTransition && this._fsm.events.some(event => this._fsm.getEventHandling(state, event) === 'default')) {
+            successorStates.push(defaultTransition.nextState.getInitialLeafState());
+        }
+        return successorStates;
+    }
+
+    private getReachableStates(): Set<FsmState> {
+        const reachableStates = new Set<FsmState>();
+        const pendingStates: FsmState[] = [];
+        const visit = (state: FsmState) => {
+            if (!reachableStates.has(state)) {
+                reachableStates.add(state);
+                pendingStates.push(state);
+            }
+        };
+
+        this._fsm.regionNames.forEach(fsmRegionName => {
+            const initialState = this._fsm.getInitialState(fsmRegionName);
+            initialState && visit(initialState.getInitialLeafState());
+        });
+        while (pendingStates.length > 0) {
+            this.getSuccessorStates(pendingStates.shift() as FsmState).forEach(visit);
+        }
+
+        // a composite state is reached whenever one of its descendants is
+        Array.from(reachableStates).forEach(state => state.getAncestors().forEach(ancestor => reachableStates.add(ancestor)));
+        return reachableStates;
+    }
+
+    private getStatesReaching(targetStates: FsmState[]): Set<FsmState> {
+        const predecessorStates = new Map<FsmState, FsmState[]>();
+        this._fsm.states.filter(state => !state.isCompositeState()).forEach(state => {
+            this.getSuccessorStates(state).forEach(successorState => {
+                const predecessors = predecessorStates.get(successorState) || [];
+                predecessors.push(state);
+                predecessorStates.set(successorState, predecessors);
+            });
+        });
+
+        const reachingStates = new Set<FsmState>(targetStates);
+        const pendingStates = [...targetStates];
+        while (pendingStates.length > 0) {
+            (predecessorStates.get(pendingStates.shift() as FsmState) || []).forEach(state => {
+                if (!reachingStates.has(state)) {
+                    reachingStates.add(state);
+                    pendingStates.push(state);
+                }
+            });
+        }
+        return reachingStates;
+    }
+
+}
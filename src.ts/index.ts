@@ -1,3 +1,20 @@
 export * from './finite-state-machine';
 export * from './fsm-state';
 export * from './fsm-event';
+export * from './fsm-action-registry';
+export * from './fsm-json';
+export * from './fsm-token-store';
+export * from './fsm-token-configuration';
+export * from './fsm-diagram';
+export * from './fsm-validation';
+export * from './fsm-minimization';
+export * from './fsm-determinization';
+export * from './fsm-token-history';
+export * from './fsm-token-index';
+export * from './fsm-token-expiry';
+export * from './fsm-scheduler';
+export * from './fsm-builder';
+export * from './fsm-simulation';
+export * from './fsm-migration';
+export * from './fsm-composition';
+export * from './fsm-path';
@@ -0,0 +1,72 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmState, TokenListenerEvent } from "../src.ts";
+
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('upload');
+fsm.listener.on(TokenListenerEvent.onTokenInvalidOutputResult, (tokenId, token, onEvent) => {
+    console.log(`  InvalidOutputResult: ${tokenId} stays in ${token} on ${onEvent}`);
+});
+
+fsm.addState('Idle');
+fsm.addState('Uploading');
+fsm.addFinalState('Stored');
+
+fsm.addEvent('upload');
+fsm.addEvent('store');
+fsm.addEvent('cancel');
+
+let storeAttempts = 0;
+fsm.addStateTransition('Idle', 'upload', 'Uploading', async (state: FsmState, event: FsmEvent) => {
+    console.log(`  ${event} started in ${state}`);
+    await delay(20);
+    console.log(`  ${event} finished in ${state}`);
+});
+fsm.addStateTransition('Uploading', 'store', 'Stored', async () => {
+    await delay(5);
+    if (++storeAttempts === 1) {
+        throw new Error('storage unavailable');
+    }
+});
+fsm.addStateTransition('Uploading', 'cancel', 'Idle', async (state: FsmState) => {
+    console.log(`  cancel handled in ${state}`);
+});
+
+const main = async () => {
+    console.log('*** Events sent to one token are queued');
+    fsm.createTokenInstance('file-1');
+    const upload = fsm.updateTokenToNextStateAsync('file-1', 'upload');
+    const cancel = fsm.updateTokenToNextStateAsync('file-1', 'cancel');
+    const uploaded = await upload;
+    console.log(`upload ==> ${uploaded}`);
+    const cancelled = await cancel;
+    console.log(`cancel ==> ${cancelled}`);
+    assert.strictEqual(uploaded.stateName, 'Uploading');
+    assert.strictEqual(cancelled.stateName, 'Idle');
+
+    console.log('\n*** A rejected output rolls the token back');
+    await fsm.updateTokenToNextStateAsync('file-1', 'upload');
+    await assert.rejects(fsm.updateTokenToNextStateAsync('file-1', 'store'), (error: Error) => {
+        console.log(`${error}`);
+        return error.message === 'storage unavailable';
+    });
+    console.log(`${fsm.getTokenInstance('file-1')}`);
+    assert.strictEqual(fsm.getTokenInstance('file-1')?.stateName, 'Uploading');
+    const stored = await fsm.updateTokenToNextStateAsync('file-1', 'store');
+    console.log(`store ==> ${stored}`);
+    assert.strictEqual(stored.stateName, 'Stored');
+
+    console.log('\n*** The queue keeps going after a failure');
+    fsm.createTokenInstance('file-2');
+    const results = ['store', 'upload', 'cancel'].map(event => fsm.updateTokenToNextStateAsync('file-2', event).then(state => `${event} ==> ${state}`, error => `${event} ==> ${error}`));
+    const settled = await Promise.all(results);
+    settled.forEach(result => console.log(`  ${result}`));
+    assert.ok(settled[0].startsWith('store ==> Error: InvalidStateChange'));
+    assert.deepStrictEqual(settled.slice(1), ['upload ==> Uploading(1)', 'cancel ==> Idle(0:IS@upload)']);
+};
+
+main().then(() => console.log('\n\nTerminating upload FSM'), error => {
+    console.log(`${error}`);
+    process.exitCode = 1;
+});
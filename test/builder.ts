@@ -0,0 +1,87 @@
+import assert from 'assert';
+import { defineMachine } from "../src.ts";
+
+
+interface DoorContext {
+    openings: number;
+}
+
+const door = defineMachine({
+    name: 'door',
+    states: {
+        Closed: { initial: true },
+        Opened: {},
+        Locked: {},
+        Broken: { final: true },
+    },
+    events: ['open', 'close', 'lock', 'unlock', 'kick'],
+    transitions: {
+        Closed: {
+            open: { target: 'Opened', action: (state, event, context: DoorContext) => ({ openings: context.openings + 1 }) },
+            lock: 'Locked',
+            kick: 'Broken',
+        },
+        Opened: { close: 'Closed' },
+        Locked: {
+            unlock: 'Closed',
+            kick: [{ target: 'Broken', guard: (tokenId, state, event, payload) => payload === 'hard' }, 'Locked'],
+        },
+    },
+    context: () => ({ openings: 0 }),
+    allowSelfTransition: true,
+});
+
+door.createTokenInstance('front');
+const expectedStates = [['open', 'Opened'], ['close', 'Closed'], ['lock', 'Locked']] as const;
+expectedStates.forEach(([event, stateName]) => {
+    const nextState = door.updateTokenToNextState('front', event);
+    console.log(`${event} ==> ${nextState}`);
+    assert.strictEqual(nextState.stateName, stateName);
+});
+const kicked = door.updateTokenToNextState('front', 'kick');
+console.log(`kick ==> ${kicked}`);
+assert.strictEqual(kicked.stateName, 'Locked');
+const kickedHard = door.updateTokenToNextState('front', 'kick', undefined, 'hard');
+console.log(`kick hard ==> ${kickedHard}`);
+assert.strictEqual(kickedHard.stateName, 'Broken');
+console.log(`openings: ${door.getTokenContext('front')?.openings}`);
+assert.strictEqual(door.getTokenContext('front')?.openings, 1);
+
+console.log('\n*** Self transitions are rejected when the definition does not allow them');
+assert.throws(() => defineMachine({
+    name: 'strict-door',
+    states: { Closed: {}, Locked: {} },
+    events: ['lock'],
+    transitions: { Closed: { lock: 'Locked' }, Locked: { lock: 'Locked' } },
+    allowSelfTransition: false,
+}), (error: Error) => {
+    console.log(`${error}`);
+    return /self transition disabled/.test(error.message);
+});
+const strictDoor = defineMachine({
+    name: 'strict-door',
+    states: { Closed: {}, Locked: {} },
+    events: ['lock'],
+    transitions: { Closed: { lock: 'Locked' } },
+    allowSelfTransition: false,
+});
+console.log(`allowSelfTransition: ${strictDoor.allowSelfTransition}`);
+assert.strictEqual(strictDoor.allowSelfTransition, false);
+assert.throws(() => strictDoor.addStateTransition('Locked', 'lock', 'Locked'), (error: Error) => {
+    console.log(`${error}`);
+    return /self transition disabled/.test(error.message);
+});
+
+console.log('\n*** Unknown names in references do not widen the state names');
+assert.throws(() => defineMachine({
+    name: 'typo-door',
+    states: { Closed: {}, Opened: {} },
+    events: ['open'],
+    transitions: {
+        // @ts-expect-error Opend is not one of the states
+        Closed: { open: 'Opend' },
+    },
+}), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
@@ -0,0 +1,120 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmComposer, FsmCompositionResult } from "../src.ts";
+
+
+// accepts exactly the given word over the events a and b
+const createWordAcceptor = (fsmName: string, word: string[]) => {
+    const fsm = FiniteStateMachine.createNewFiniteStateMachine(fsmName);
+    fsm.addEvent('a');
+    fsm.addEvent('b');
+    fsm.addState(`${fsmName}0`);
+    word.forEach((event, index) => {
+        (index === word.length - 1) ? fsm.addFinalState(`${fsmName}${index + 1}`) : fsm.addState(`${fsmName}${index + 1}`);
+        fsm.addStateTransition(`${fsmName}${index}`, event, `${fsmName}${index + 1}`);
+    });
+    return fsm;
+};
+
+// accepts every word with an even number of a
+const evenA = FiniteStateMachine.createNewFiniteStateMachine('evenA');
+evenA.addState('Even');
+evenA.addState('Odd');
+evenA.addEvent('a');
+evenA.addEvent('b');
+evenA.allowSelfTransition = true;
+evenA.addStateTransition('Even', 'a', 'Odd');
+evenA.addStateTransition('Odd', 'a', 'Even');
+evenA.addStateTransition('Even', 'b', 'Even');
+evenA.addStateTransition('Odd', 'b', 'Odd');
+
+const evenAcceptor = { fsm: evenA, acceptingStates: [evenA.getState('Even')!] };
+
+const words = [[], ['a'], ['b'], ['a', 'b'], ['a', 'a'], ['b', 'a'], ['a', 'b', 'a']];
+const printLanguage = (description: string, result: FsmCompositionResult, expectedWords: string[]) => {
+    const accepted = words.filter(word => result.fsm.accepts(word, result.acceptingStates)).map(word => `[${word.join('')}]`);
+    const finalStates = result.fsm.states.filter(state => state.isFinalState());
+    // final states never accept a word outside the language, accepting states with outgoing transitions are only listed
+    const acceptedInFinalState = words.filter(word => result.fsm.accepts(word)).map(word => `[${word.join('')}]`);
+    console.log(`${description}: accepts ${accepted.join(' ') || 'nothing'}, ending in a final state ${acceptedInFinalState.join(' ') || 'nothing'}`);
+    console.log(`  states: ${result.fsm.states.map(state => state.stateName).join(' ')}`);
+    console.log(`  accepting: ${result.acceptingStates.map(state => state.stateName).join(' ') || '-'}, final: ${finalStates.map(state => state.stateName).join(' ') || '-'}`);
+    const wrongFinalStates = finalStates.filter(state => !result.acceptingStates.includes(state));
+    wrongFinalStates.length > 0 && console.log(`  final but not accepting: ${wrongFinalStates.join(', ')}`);
+    assert.deepStrictEqual(accepted, expectedWords, description);
+    assert.deepStrictEqual(wrongFinalStates, [], description);
+};
+
+const ab = createWordAcceptor('ab', ['a', 'b']);
+const ba = createWordAcceptor('ba', ['b', 'a']);
+const a = createWordAcceptor('x', ['a']);
+const b = createWordAcceptor('y', ['b']);
+const aa = createWordAcceptor('aa', ['a', 'a']);
+
+console.log('*** Union');
+printLanguage('ab | ba', ab.union(ba), ['[ab]', '[ba]']);
+
+console.log('\n*** Intersection');
+printLanguage('aa & evenA', aa.intersection(evenAcceptor), ['[aa]']);
+printLanguage('ab & evenA', ab.intersection(evenAcceptor), []);
+printLanguage('a & b', a.intersection(b), []);
+
+console.log('\n*** Complement');
+printLanguage('!evenA', new FsmComposer(evenAcceptor).complement(), ['[a]', '[ab]', '[ba]']);
+printLanguage('!ab', ab.complement(), ['[]', '[a]', '[b]', '[aa]', '[ba]', '[aba]']);
+
+console.log('\n*** Synchronous product');
+const orders = FiniteStateMachine.createNewFiniteStateMachine('orders');
+orders.addState('Open');
+orders.addState('Paid');
+orders.addFinalState('Closed');
+orders.addEvent('pay');
+orders.addEvent('ship');
+orders.addStateTransition('Open', 'pay', 'Paid');
+orders.addStateTransition('Paid', 'ship', 'Closed');
+const packing = FiniteStateMachine.createNewFiniteStateMachine('packing');
+packing.addState('Waiting');
+packing.addState('Packed');
+packing.addFinalState('Sent');
+packing.addEvent('pack');
+packing.addEvent('ship');
+packing.addStateTransition('Waiting', 'pack', 'Packed');
+packing.addStateTransition('Packed', 'ship', 'Sent');
+const product = orders.product(packing);
+console.log(`states: ${product.fsm.states.map(state => state.stateName).join(' ')}`);
+console.log(`final: ${product.fsm.states.filter(state => state.isFinalState()).map(state => state.stateName).join(' ')}`);
+[['pay', 'pack', 'ship'], ['pack', 'pay', 'ship'], ['pay', 'ship'], ['pack', 'ship']].forEach(word => {
+    console.log(`  ${word.join(',')}: ${product.fsm.accepts(word)}`);
+    assert.strictEqual(product.fsm.accepts(word), word.length === 3);
+});
+
+console.log('\n*** A product keeps the states that can never accept');
+const payment = FiniteStateMachine.createNewFiniteStateMachine('payment');
+payment.addState('Unpaid');
+payment.addState('Paid');
+payment.addEvent('pay');
+payment.addEvent('refund');
+payment.addStateTransition('Unpaid', 'pay', 'Paid');
+payment.addStateTransition('Paid', 'refund', 'Unpaid');
+const shipping = FiniteStateMachine.createNewFiniteStateMachine('shipping');
+shipping.addState('Wait');
+shipping.addState('Sent');
+shipping.addEvent('ship');
+shipping.addStateTransition('Wait', 'ship', 'Sent');
+const paymentShipping = payment.product(shipping);
+console.log(`states: ${paymentShipping.fsm.states.map(state => state.stateName).join(' ')}`);
+console.log(`accepting: ${paymentShipping.acceptingStates.join(' ') || '-'}`);
+assert.deepStrictEqual(paymentShipping.fsm.states.map(state => state.stateName), ['(Unpaid,Wait)', '(Paid,Wait)', '(Unpaid,Sent)', '(Paid,Sent)']);
+assert.deepStrictEqual(paymentShipping.acceptingStates, []);
+assert.strictEqual(paymentShipping.fsm.nextState('(Paid,Sent)', 'refund')?.stateName, '(Unpaid,Sent)');
+
+console.log('\n*** Only states marked final accept by default');
+const dead = FiniteStateMachine.createNewFiniteStateMachine('dead');
+dead.addState('A');
+dead.addState('Dead');
+dead.addEvent('x');
+dead.addStateTransition('A', 'x', 'Dead');
+const deadUnion = dead.union(dead);
+console.log(`states: ${deadUnion.fsm.states.map(state => state.stateName).join(' ')}`);
+console.log(`accepting: ${deadUnion.acceptingStates.join(' ') || '-'}`);
+assert.deepStrictEqual(deadUnion.acceptingStates, []);
+assert.strictEqual(deadUnion.fsm.accepts(['x'], deadUnion.acceptingStates), false);
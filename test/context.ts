@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmState } from "../src.ts";
+
+
+interface PaymentContext {
+    retries: number;
+    log: string[];
+}
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine<PaymentContext>('payment');
+fsm.contextFactory = () => ({ retries: 0, log: [] });
+
+fsm.addState('New');
+fsm.addState('Paying');
+fsm.addFinalState('Paid');
+fsm.addFinalState('Failed');
+
+fsm.addEvent('pay');
+fsm.addEvent('retry');
+fsm.addEvent('confirm');
+
+fsm.setEntryAction('Paying', (state, event, context) => ({ ...context, log: [...context.log, `entered ${state.stateName} on ${event}`] }));
+fsm.addStateTransition('New', 'pay', 'Paying');
+fsm.addStateTransition('Paying', 'retry', 'Paying',
+    (state, event, context) => ({ ...context, retries: context.retries + 1 }),
+    (tokenId, state, event, payload, context) => (context?.retries ?? 0) < 2);
+fsm.addStateTransition('Paying', 'retry', 'Failed');
+fsm.addStateTransition('Paying', 'confirm', 'Paid', (state, event, context) => {
+    throw new Error(`payment rejected after ${context.retries} retries`);
+});
+
+fsm.createTokenInstance('order');
+['pay', 'retry', 'retry'].forEach(event => {
+    console.log(`${event} ==> ${fsm.updateTokenToNextState('order', event)} ${JSON.stringify(fsm.getTokenContext('order'))}`);
+});
+assert.deepStrictEqual(fsm.getTokenContext('order'), { retries: 2, log: ['entered Paying on pay(0)'] });
+
+console.log('\n*** Failed output keeps the previous context');
+assert.throws(() => fsm.updateTokenToNextState('order', 'confirm'), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
+console.log(`${fsm.getTokenInstance('order')} ${JSON.stringify(fsm.getTokenContext('order'))}`);
+assert.strictEqual(fsm.getTokenInstance('order')?.stateName, 'Paying');
+assert.strictEqual(fsm.getTokenContext('order')?.retries, 2);
+console.log(`retry ==> ${fsm.updateTokenToNextState('order', 'retry')} ${JSON.stringify(fsm.getTokenContext('order'))}`);
+assert.strictEqual(fsm.getTokenInstance('order')?.stateName, 'Failed');
+
+console.log('\n*** Every output gets the context');
+fsm.addEvent('audit');
+fsm.addEvent('note');
+// neither the number of declared parameters nor default or rest parameters decide what an output is given
+fsm.addStateTransition('New', 'audit', 'New', (...args: unknown[]) => {
+    const context = args[2] as PaymentContext;
+    return { ...context, log: [...context.log, 'audited'] };
+});
+fsm.addStateTransition('New', 'note', 'New', (state: FsmState, event: FsmEvent | null, context: PaymentContext = { retries: -1, log: [] }) => {
+    return { ...context, log: [...context.log, `noted in ${state.stateName}`] };
+});
+fsm.createTokenInstance('order-3');
+fsm.updateTokenToNextState('order-3', 'audit');
+fsm.updateTokenToNextState('order-3', 'note');
+console.log(`${fsm.getTokenInstance('order-3')} ${JSON.stringify(fsm.getTokenContext('order-3'))}`);
+assert.deepStrictEqual(fsm.getTokenContext('order-3'), { retries: 0, log: ['audited', 'noted in New'] });
+
+console.log('\n*** Async outputs are only awaited on the async path');
+fsm.addEvent('review');
+const reviews: string[] = [];
+fsm.addStateTransition('Paying', 'review', 'Paying', async (state, event, context) => {
+    reviews.push(`review with ${context.retries} retries`);
+    return { ...context, log: [...context.log, 'reviewed'] };
+});
+fsm.createTokenInstance('order-2');
+fsm.updateTokenToNextState('order-2', 'pay');
+// the output runs, but the context it settles with is dropped
+console.log(`review ==> ${fsm.updateTokenToNextState('order-2', 'review')} ${JSON.stringify(fsm.getTokenContext('order-2'))}`);
+assert.deepStrictEqual(reviews, ['review with 0 retries']);
+assert.deepStrictEqual(fsm.getTokenContext('order-2')?.log, ['entered Paying on pay(0)']);
+fsm.updateTokenToNextStateAsync('order-2', 'review').then(state => {
+    console.log(`review ==> ${state} ${JSON.stringify(fsm.getTokenContext('order-2'))}`);
+    assert.deepStrictEqual(fsm.getTokenContext('order-2')?.log, ['entered Paying on pay(0)', 'reviewed']);
+}).catch(error => {
+    console.log(`${error}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { FakeClock, FiniteStateMachine, TokenListenerEvent } from "../src.ts";
+
+
+const clock = new FakeClock();
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('trafficLight');
+fsm.scheduler = clock;
+fsm.listener.on(TokenListenerEvent.onTokenTransitState, (tokenId, token, onEvent, nextState) => {
+    console.log(`  @${clock.now()} ${tokenId}: ${token} ---[ ${onEvent} ]--> ${nextState}`);
+});
+
+fsm.addState('Red');
+fsm.addState('Green');
+fsm.addState('Yellow');
+fsm.addState('Flashing');
+
+fsm.addEvent('Secs_60');
+fsm.addEvent('Secs_90');
+fsm.addEvent('Secs_10');
+fsm.addEvent('fault');
+fsm.addEvent('repair');
+
+// the timers start when the token enters the state, nobody has to send these events
+fsm.addDelayedTransition('Red', 'Secs_60', 60000, 'Green');
+fsm.addDelayedTransition('Green', 'Secs_90', 90000, 'Yellow');
+fsm.addDelayedTransition('Yellow', 'Secs_10', 10000, 'Red');
+fsm.addStateTransition('Red', 'fault', 'Flashing');
+fsm.addStateTransition('Green', 'fault', 'Flashing');
+fsm.addStateTransition('Yellow', 'fault', 'Flashing');
+fsm.addStateTransition('Flashing', 'repair', 'Red');
+
+const dueTimes = (tokenId: string) => fsm.getPendingTimers(tokenId).map(timer => `${timer.event.eventName}@${timer.dueTime}`);
+const printTimers = (tokenId: string) => fsm.getPendingTimers(tokenId).forEach(timer => {
+    console.log(`  pending ${timer.event} in ${timer.state} due @${timer.dueTime}`);
+});
+
+console.log('*** One full cycle');
+fsm.createTokenInstance('crossing-1');
+printTimers('crossing-1');
+assert.deepStrictEqual(dueTimes('crossing-1'), ['Secs_60@60000']);
+clock.advance(160000);
+console.log(`${fsm.getTokenInstance('crossing-1')}`);
+printTimers('crossing-1');
+assert.strictEqual(fsm.getTokenInstance('crossing-1')?.stateName, 'Red');
+assert.deepStrictEqual(dueTimes('crossing-1'), ['Secs_60@220000']);
+
+console.log('\n*** Leaving a state cancels its timer');
+clock.advance(30000);
+fsm.updateTokenToNextState('crossing-1', 'fault');
+console.log(`pending timers: ${fsm.getPendingTimers('crossing-1').length}`);
+assert.deepStrictEqual(dueTimes('crossing-1'), []);
+clock.advance(600000);
+console.log(`${fsm.getTokenInstance('crossing-1')}`);
+assert.strictEqual(fsm.getTokenInstance('crossing-1')?.stateName, 'Flashing');
+
+console.log('\n*** Entering the state again restarts it');
+fsm.updateTokenToNextState('crossing-1', 'repair');
+printTimers('crossing-1');
+assert.deepStrictEqual(dueTimes('crossing-1'), ['Secs_60@850000']);
+clock.advance(60000);
+console.log(`${fsm.getTokenInstance('crossing-1')}`);
+assert.strictEqual(fsm.getTokenInstance('crossing-1')?.stateName, 'Green');
+
+console.log('\n*** Tokens keep their own timers');
+fsm.createTokenInstance('crossing-2');
+printTimers('crossing-1');
+printTimers('crossing-2');
+clock.advance(90000);
+console.log(`crossing-1: ${fsm.getTokenInstance('crossing-1')} crossing-2: ${fsm.getTokenInstance('crossing-2')}`);
+console.log(`timers on the clock: ${clock.pendingTimerCount}`);
+assert.strictEqual(fsm.getTokenInstance('crossing-1')?.stateName, 'Yellow');
+assert.strictEqual(fsm.getTokenInstance('crossing-2')?.stateName, 'Green');
+assert.deepStrictEqual([...dueTimes('crossing-1'), ...dueTimes('crossing-2')], ['Secs_10@950000', 'Secs_90@1000000']);
+assert.strictEqual(clock.pendingTimerCount, 2);
@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { FiniteStateMachine, TokenListenerEvent } from "../src.ts";
+
+
+// accepts every word over {a, b} ending in "abb"
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('endsWithAbb');
+
+fsm.addState('Start').markNonDeterministic();
+fsm.addState('SeenA');
+fsm.addState('SeenAb');
+fsm.addState('SeenAbb');
+fsm.addFinalState('Accept');
+
+fsm.addEvent('a');
+fsm.addEvent('b');
+
+fsm.addStateTransition('Start', 'a', 'Start');
+fsm.addStateTransition('Start', 'b', 'Start');
+fsm.addStateTransition('Start', 'a', 'SeenA');
+fsm.addStateTransition('SeenA', 'b', 'SeenAb');
+fsm.addStateTransition('SeenAb', 'b', 'SeenAbb');
+fsm.addEpsilonTransition('SeenAbb', 'Accept');
+console.log(fsm.toString());
+
+console.log('*** Determinizing FSM');
+const { fsm: dfa, acceptingStates } = fsm.determinize('endsWithAbbDfa');
+console.log(dfa.toString());
+console.log(`Accepting states: ${acceptingStates.join(', ')}`);
+assert.deepStrictEqual(dfa.states.map(state => state.stateName), ['Start', '{Start,SeenA}', '{Start,SeenAb}', '{Start,SeenAbb,Accept}']);
+assert.deepStrictEqual(acceptingStates.map(state => state.stateName), ['{Start,SeenAbb,Accept}']);
+[['a', 'b', 'b'], ['b', 'a', 'b', 'b'], ['a', 'b'], ['a', 'b', 'b', 'a']].forEach(word => {
+    assert.strictEqual(dfa.accepts(word, acceptingStates), word.join('').endsWith('abb'), word.join(''));
+});
+
+// a set of states without transitions is a dead end, it only accepts when one of its states is marked final
+const deadEnds = FiniteStateMachine.createNewFiniteStateMachine('deadEnds');
+deadEnds.addState('Start').markNonDeterministic();
+deadEnds.addState('Left');
+deadEnds.addState('Right');
+deadEnds.addEvent('x');
+deadEnds.addStateTransition('Start', 'x', 'Left');
+deadEnds.addStateTransition('Start', 'x', 'Right');
+const deadEndsDfa = deadEnds.determinize();
+console.log(`Dead ends accepting: ${deadEndsDfa.acceptingStates.join(', ') || '-'}`);
+assert.deepStrictEqual(deadEndsDfa.acceptingStates, []);
+
+console.log('\n*** Tracking the set of possible states');
+fsm.listener.on(TokenListenerEvent.onTokenTransitStateSet, (tokenId, currentStates, event, nextStates) => {
+    console.log(`\t${tokenId}: {${currentStates.join(', ')}} ---[ ${event} ]--> {${nextStates.join(', ')}}`);
+});
+fsm.createNonDeterministicTokenInstance('word');
+['b', 'a', 'b', 'b'].forEach(event => fsm.updateTokenToNextStates('word', event));
+console.log(`Accepted: ${fsm.getTokenStateSet('word').some(state => state.isFinalState())}`);
+assert.deepStrictEqual(fsm.getTokenStateSet('word').map(state => state.stateName), ['Start', 'SeenAbb', 'Accept']);
+
+console.log('\n*** Choosing a single target');
+fsm.createTokenInstance('single');
+assert.throws(() => fsm.updateTokenToNextState('single', 'a'), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
+const nextState = fsm.updateTokenToNextState('single', 'a', () => fsm.getState('SeenA'));
+console.log(`a ==> ${nextState}`);
+assert.strictEqual(nextState?.stateName, 'SeenA');
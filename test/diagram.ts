@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmDiagramExporter } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('order "v2"');
+
+fsm.addState('New');
+fsm.addState('Checkout');
+fsm.addState('Cart [open]');
+fsm.addState('Payment');
+fsm.addFinalState('Done; "shipped"');
+
+fsm.setParentState('Cart [open]', 'Checkout');
+fsm.setParentState('Payment', 'Checkout');
+fsm.setInitialChildState('Checkout', 'Cart [open]');
+
+fsm.addEvent('start');
+fsm.addEvent('pay');
+fsm.addEvent('retry');
+fsm.addEvent('ship');
+fsm.addEvent('timeout');
+
+fsm.registerGuard('hasItems', () => true);
+fsm.registerAction('charge', () => undefined);
+
+fsm.addStateTransition('New', 'start', 'Checkout');
+fsm.addStateTransition('Cart [open]', 'pay', 'Payment', 'charge', 'hasItems');
+fsm.addStateTransition('Payment', 'retry', 'Payment');
+fsm.addStateTransition('Payment', 'ship', 'Done; "shipped"');
+fsm.addDelayedTransition('Payment', 'timeout', 30000, 'Cart [open]');
+
+fsm.createTokenInstance('order-1');
+fsm.updateTokenToNextState('order-1', 'start');
+
+const exporter = new FsmDiagramExporter(fsm);
+console.log('*** Graphviz DOT');
+const dot = exporter.toDot({ tokenId: 'order-1' });
+console.log(dot);
+assert.ok(dot.startsWith('digraph "order \\"v2\\"" {'));
+assert.ok(dot.includes('"state_2" -> "state_3" [label="pay [hasItems] / charge"];'));
+assert.ok(dot.includes('"state_3" -> "state_2" [label="timeout after 30000ms"];'));
+console.log('*** Mermaid');
+const mermaid = exporter.toMermaid({ tokenId: 'order-1', showStateIds: true });
+console.log(mermaid);
+assert.ok(mermaid.includes('state "Cart #91;open#93;(2)" as state_2'));
+assert.ok(mermaid.includes('class state_2 active'));
+console.log('*** PlantUML');
+const plantUml = exporter.toPlantUml({ tokenId: 'order-1' });
+console.log(plantUml);
+assert.ok(plantUml.includes('state_3 -[#blue,dashed]-> state_3 : retry'));
+
+console.log('*** Wildcard and default transitions');
+const player = FiniteStateMachine.createNewFiniteStateMachine('player');
+player.addState('Paused');
+player.addState('Playing');
+player.addState('Error');
+player.addEvent('play');
+player.addEvent('crash');
+player.addStateTransition('Paused', 'play', 'Playing');
+player.setWildcardTransition('Paused', 'Playing');
+player.setDefaultTransition('Error');
+const playerExporter = new FsmDiagramExporter(player);
+const playerDot = playerExporter.toDot();
+const playerMermaid = playerExporter.toMermaid();
+const playerPlantUml = playerExporter.toPlantUml();
+console.log(playerDot);
+console.log(playerMermaid);
+console.log(playerPlantUml);
+assert.ok(playerDot.includes('"state_0" -> "state_1" [label="*", style="bold"];'));
+assert.ok(playerDot.includes('"default_transition" -> "state_2" [label="default", style="bold"];'));
+assert.ok(playerMermaid.includes('state_0 --> state_1 : *'));
+assert.ok(playerMermaid.includes('default_transition --> state_2 : default'));
+assert.ok(playerPlantUml.includes('state_0 -[bold]-> state_1 : *'));
+assert.ok(playerPlantUml.includes('default_transition -[bold]-> state_2 : default'));
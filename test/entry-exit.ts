@@ -0,0 +1,89 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmState, TokenListenerEvent } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('door');
+fsm.listener.on(TokenListenerEvent.onTokenEnterFinalState, (tokenId, state, onEvent) => {
+    console.log(`  EnterFinalState: ${tokenId} entered ${state} on ${onEvent}`);
+});
+fsm.listener.on(TokenListenerEvent.onTokenInvalidOutputResult, (tokenId, token, onEvent) => {
+    console.log(`  InvalidOutputResult: ${tokenId} stays in ${token} on ${onEvent}`);
+});
+
+fsm.addState('Closed');
+fsm.addState('Open');
+fsm.addState('Locked');
+fsm.addFinalState('Removed');
+
+fsm.addEvent('open');
+fsm.addEvent('close');
+fsm.addEvent('lock');
+fsm.addEvent('unlock');
+fsm.addEvent('knock');
+fsm.addEvent('remove');
+
+let isJammed = false;
+let steps: string[] = [];
+const step = (description: string) => {
+    steps.push(description);
+    console.log(`  ${description}`);
+};
+const takeSteps = () => {
+    const takenSteps = steps;
+    steps = [];
+    return takenSteps;
+};
+['Closed', 'Open', 'Locked', 'Removed'].forEach(stateName => {
+    fsm.setEntryAction(stateName, (state: FsmState) => step(`enter ${state.stateName}`));
+    fsm.setExitAction(stateName, (state: FsmState) => step(`exit ${state.stateName}`));
+});
+fsm.setEntryAction('Locked', (state: FsmState) => {
+    if (isJammed) {
+        throw new Error('lock is jammed');
+    }
+    step(`enter ${state.stateName}`);
+});
+fsm.addStateTransition('Closed', 'open', 'Open', () => step('output open'));
+fsm.addStateTransition('Open', 'close', 'Closed', () => step('output close'));
+fsm.addStateTransition('Closed', 'lock', 'Locked', () => step('output lock'));
+fsm.addStateTransition('Locked', 'unlock', 'Closed');
+fsm.addStateTransition('Closed', 'knock', 'Closed', () => step('output knock'));
+fsm.addStateTransition('Closed', 'remove', 'Removed');
+
+console.log('*** Creating a token enters the initial state');
+fsm.createTokenInstance('door-1');
+assert.deepStrictEqual(takeSteps(), ['enter Closed']);
+
+console.log('\n*** Exit, output, then entry');
+console.log(`open ==> ${fsm.updateTokenToNextState('door-1', 'open')}`);
+console.log(`close ==> ${fsm.updateTokenToNextState('door-1', 'close')}`);
+assert.deepStrictEqual(takeSteps(), ['exit Closed', 'output open', 'enter Open', 'exit Open', 'output close', 'enter Closed']);
+
+console.log('\n*** Self transitions only run the output unless they re-enter');
+console.log(`knock ==> ${fsm.updateTokenToNextState('door-1', 'knock')}`);
+assert.deepStrictEqual(takeSteps(), ['output knock']);
+fsm.reenterOnSelfTransition = true;
+console.log(`knock ==> ${fsm.updateTokenToNextState('door-1', 'knock')}`);
+assert.deepStrictEqual(takeSteps(), ['exit Closed', 'output knock', 'enter Closed']);
+fsm.reenterOnSelfTransition = false;
+
+console.log('\n*** A failing entry action rolls the token back');
+isJammed = true;
+assert.throws(() => fsm.updateTokenToNextState('door-1', 'lock'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message === 'lock is jammed';
+});
+console.log(`${fsm.getTokenInstance('door-1')}`);
+assert.strictEqual(fsm.getTokenInstance('door-1')?.stateName, 'Closed');
+isJammed = false;
+console.log(`lock ==> ${fsm.updateTokenToNextState('door-1', 'lock')}`);
+assert.strictEqual(fsm.getTokenInstance('door-1')?.stateName, 'Locked');
+takeSteps();
+
+console.log('\n*** Entering a final state is reported');
+const enteredFinalStates: string[] = [];
+fsm.listener.on(TokenListenerEvent.onTokenEnterFinalState, (tokenId, state) => enteredFinalStates.push(`${tokenId}@${state.stateName}`));
+fsm.createTokenInstance('door-2');
+console.log(`remove ==> ${fsm.updateTokenToNextState('door-2', 'remove')}`);
+assert.deepStrictEqual(takeSteps(), ['enter Closed', 'exit Closed', 'enter Removed']);
+assert.deepStrictEqual(enteredFinalStates, ['door-2@Removed']);
@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmState, TokenListenerEvent } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('player');
+fsm.listener.on(TokenListenerEvent.onTokenEventIgnored, (tokenId, token, onEvent) => {
+    console.log(`  EventIgnored: ${tokenId} stays in ${token} on ${onEvent}`);
+});
+
+fsm.addState('Stopped');
+fsm.addState('Playing');
+fsm.addState('Paused');
+fsm.addState('Error');
+
+fsm.addEvent('play');
+fsm.addEvent('pause');
+fsm.addEvent('stop');
+fsm.addEvent('volume');
+fsm.addEvent('crash');
+
+fsm.addStateTransition('Stopped', 'play', 'Playing');
+fsm.addStateTransition('Playing', 'pause', 'Paused');
+fsm.addStateTransition('Playing', 'stop', 'Stopped');
+fsm.addStateTransition('Error', 'stop', 'Stopped');
+// volume changes never move the player
+['Stopped', 'Playing', 'Paused'].forEach(stateName => fsm.ignoreEvent(stateName, 'volume'));
+// a paused player resumes on anything it has no transition for
+fsm.setWildcardTransition('Paused', 'Playing', (state: FsmState, event: FsmEvent) => console.log(`  resumed by ${event}`));
+fsm.addStateTransition('Paused', 'stop', 'Stopped');
+// everything else ends in the error state
+fsm.setDefaultTransition('Error', (state: FsmState, event: FsmEvent) => console.log(`  ${event} is not expected in ${state}`));
+
+console.log('*** Printing FSM');
+console.log(fsm.getStateTableString());
+console.log(['Stopped', 'Playing', 'Paused', 'Error'].map(stateName => `${stateName}: ${fsm.events.map(event => `${event.eventName}=${fsm.getEventHandling(stateName, event)}`).join(' ')}`).join('\n'));
+assert.deepStrictEqual(fsm.events.map(event => fsm.getEventHandling('Paused', event)), ['wildcard', 'wildcard', 'transition', 'ignored', 'wildcard']);
+assert.deepStrictEqual(fsm.events.map(event => fsm.getEventHandling('Stopped', event)), ['transition', 'default', 'default', 'ignored', 'default']);
+
+console.log('\n*** Running');
+fsm.createTokenInstance('player-1');
+const expectedStates: Array<[string, string]> = [
+    ['volume', 'Stopped'], ['play', 'Playing'], ['volume', 'Playing'], ['pause', 'Paused'], ['volume', 'Paused'],
+    ['pause', 'Playing'], ['crash', 'Error'], ['volume', 'Error'], ['stop', 'Stopped'],
+];
+expectedStates.forEach(([event, stateName]) => {
+    const nextState = fsm.updateTokenToNextState('player-1', event);
+    console.log(`${event} ==> ${nextState}`);
+    assert.strictEqual(nextState?.stateName, stateName);
+});
+
+console.log('\n*** Without a default transition');
+fsm.removeDefaultTransition();
+assert.throws(() => fsm.updateTokenToNextState('player-1', 'pause'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
+
+console.log('\n*** Validation reports the implicit handling');
+const implicitHandlings = fsm.validate().implicitHandlings.map(({ state, event, handling }) => `${state.stateName}/${event.eventName}: ${handling}`);
+implicitHandlings.forEach(implicitHandling => console.log(`  ${implicitHandling}`));
+assert.deepStrictEqual(implicitHandlings, [
+    'Stopped/volume: ignored', 'Playing/volume: ignored', 'Paused/play: wildcard', 'Paused/pause: wildcard', 'Paused/volume: ignored', 'Paused/crash: wildcard',
+]);
@@ -0,0 +1,61 @@
+import assert from 'assert';
+import { FiniteStateMachine, TokenListenerEvent } from "../src.ts";
+
+
+interface Order {
+    amount: number;
+}
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('approval');
+fsm.listener.on(TokenListenerEvent.onTokenGuardRejected, (tokenId, token, onEvent, payload) => {
+    console.log(`  GuardRejected: ${tokenId} in ${token} on ${onEvent} with ${JSON.stringify(payload)}`);
+});
+fsm.listener.on(TokenListenerEvent.onTokenInvalidStateChange, (tokenId, token, onEvent) => {
+    console.log(`  InvalidStateChange: ${tokenId} in ${token} on ${onEvent}`);
+});
+
+fsm.addState('Submitted');
+fsm.addState('AutoApproved');
+fsm.addState('ManagerReview');
+fsm.addState('BoardReview');
+fsm.addFinalState('Closed');
+
+fsm.addEvent('review');
+fsm.addEvent('close');
+
+fsm.registerGuard('isSmall', (tokenId, state, event, payload) => (payload as Order).amount < 100);
+fsm.registerGuard('isMedium', (tokenId, state, event, payload) => (payload as Order).amount < 10000);
+// the first guard that passes picks the target
+fsm.addStateTransition('Submitted', 'review', 'AutoApproved', undefined, 'isSmall');
+fsm.addStateTransition('Submitted', 'review', 'ManagerReview', undefined, 'isMedium');
+fsm.addStateTransition('Submitted', 'review', 'BoardReview', undefined, (tokenId, state, event, payload) => !tokenId.startsWith('draft'));
+fsm.addStateTransition('AutoApproved', 'close', 'Closed');
+
+console.log('*** Printing FSM');
+console.log(fsm.getStateTableString());
+
+console.log('*** Guards choose the target');
+[['order-1', 50, 'AutoApproved'], ['order-2', 500, 'ManagerReview'], ['order-3', 50000, 'BoardReview']].forEach(([tokenId, amount, stateName]) => {
+    fsm.createTokenInstance(tokenId as string);
+    const nextState = fsm.updateTokenToNextState(tokenId as string, 'review', undefined, { amount });
+    console.log(`${tokenId} review ${amount} ==> ${nextState}`);
+    assert.strictEqual(nextState?.stateName, stateName);
+});
+
+console.log('\n*** No guard passes');
+fsm.createTokenInstance('draft-1');
+assert.throws(() => fsm.updateTokenToNextState('draft-1', 'review', undefined, { amount: 50000 }), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidGuardedStateChange');
+});
+console.log(`${fsm.getTokenInstance('draft-1')}`);
+assert.strictEqual(fsm.getTokenInstance('draft-1')?.stateName, 'Submitted');
+
+console.log('\n*** Unguarded transitions are not affected');
+assert.throws(() => fsm.updateTokenToNextState('order-2', 'close'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
+const closed = fsm.updateTokenToNextState('order-1', 'close');
+console.log(`order-1 close ==> ${closed}`);
+assert.strictEqual(closed?.stateName, 'Closed');
@@ -0,0 +1,94 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmState } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('media-player');
+
+fsm.addState('Off');
+fsm.addState('On');
+fsm.addState('Stopped');
+fsm.addState('Active');
+fsm.addState('Playing');
+fsm.addState('Paused');
+
+fsm.setParentState('Stopped', 'On');
+fsm.setParentState('Active', 'On');
+fsm.setParentState('Playing', 'Active');
+fsm.setParentState('Paused', 'Active');
+fsm.setInitialChildState('On', 'Stopped');
+fsm.setInitialChildState('Active', 'Playing');
+
+fsm.addEvent('power');
+fsm.addEvent('play');
+fsm.addEvent('pause');
+fsm.addEvent('stop');
+fsm.addEvent('eject');
+
+fsm.addStateTransition('Off', 'power', 'On');
+fsm.addStateTransition('On', 'power', 'Off');
+fsm.addStateTransition('Stopped', 'play', 'Active');
+fsm.addStateTransition('Playing', 'pause', 'Paused');
+fsm.addStateTransition('Paused', 'play', 'Playing');
+fsm.addStateTransition('Active', 'stop', 'Stopped');
+// the guard of a transition defined on an ancestor still sees the active leaf state
+fsm.addStateTransition('On', 'eject', 'Off', undefined, (tokenId, currentState) => {
+    console.log(`  eject guard sees ${currentState.statePath}`);
+    return currentState.stateName !== 'Playing';
+});
+
+let steps: string[] = [];
+const step = (description: string) => {
+    steps.push(description);
+    console.log(`  ${description}`);
+};
+const takeSteps = () => {
+    const takenSteps = steps;
+    steps = [];
+    return takenSteps;
+};
+['Off', 'On', 'Stopped', 'Active', 'Playing', 'Paused'].forEach(stateName => {
+    fsm.setEntryAction(stateName, (state: FsmState) => step(`enter ${state.statePath}`));
+    fsm.setExitAction(stateName, (state: FsmState) => step(`exit ${state.statePath}`));
+});
+fsm.setInitialState(fsm.getState('Off')!);
+
+fsm.createTokenInstance('player');
+assert.deepStrictEqual(takeSteps(), ['enter Off']);
+const expectedSteps: Array<[string, string, string[]]> = [
+    ['power', 'On/Stopped', ['exit Off', 'enter On', 'enter On/Stopped']],
+    ['play', 'On/Active/Playing', ['exit On/Stopped', 'enter On/Active', 'enter On/Active/Playing']],
+    ['pause', 'On/Active/Paused', ['exit On/Active/Playing', 'enter On/Active/Paused']],
+    ['stop', 'On/Stopped', ['exit On/Active/Paused', 'exit On/Active', 'enter On/Stopped']],
+    ['play', 'On/Active/Playing', ['exit On/Stopped', 'enter On/Active', 'enter On/Active/Playing']],
+    ['power', 'Off', ['exit On/Active/Playing', 'exit On/Active', 'exit On', 'enter Off']],
+];
+expectedSteps.forEach(([event, statePath, eventSteps]) => {
+    console.log(`${event}:`);
+    const nextState = fsm.updateTokenToNextState('player', event);
+    console.log(`${event} ==> ${nextState.statePath}`);
+    assert.strictEqual(nextState.statePath, statePath);
+    assert.deepStrictEqual(takeSteps(), eventSteps);
+});
+
+console.log('\n*** Guard of a bubbled event');
+['power', 'play'].forEach(event => fsm.updateTokenToNextState('player', event));
+assert.throws(() => fsm.updateTokenToNextState('player', 'eject'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidGuardedStateChange');
+});
+assert.strictEqual(fsm.getTokenInstance('player')?.statePath, 'On/Active/Playing');
+fsm.updateTokenToNextState('player', 'pause');
+takeSteps();
+const ejected = fsm.updateTokenToNextState('player', 'eject');
+console.log(`eject ==> ${ejected.statePath}`);
+assert.strictEqual(ejected.statePath, 'Off');
+assert.deepStrictEqual(takeSteps(), ['exit On/Active/Paused', 'exit On/Active', 'exit On', 'enter Off']);
+
+console.log('\n*** Tokens in composite states');
+fsm.createTokenInstance('second');
+fsm.updateTokenToNextState('second', 'power');
+console.log(`in On: ${fsm.getTokensInState('On').join(', ')}`);
+console.log(`in Off: ${fsm.getTokensInState('Off').join(', ')}`);
+assert.deepStrictEqual(fsm.getTokensInState('On'), ['second']);
+assert.deepStrictEqual(fsm.getTokensInState('On', false), []);
+assert.deepStrictEqual(fsm.getTokensInState('Off'), ['player']);
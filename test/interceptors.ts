@@ -0,0 +1,101 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmInterceptor, FsmInterceptorAction, FsmState, TokenListenerEvent } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('checkout');
+fsm.listener.on(TokenListenerEvent.onTokenTransitVetoed, (tokenId, token, onEvent, nextState, reason) => {
+    console.log(`  TransitVetoed: ${tokenId} ${token} -/-> ${nextState} on ${onEvent}, ${reason}`);
+});
+
+fsm.addState('Cart');
+fsm.addState('Payment');
+fsm.addState('NewPayment');
+fsm.addFinalState('Ordered');
+
+fsm.addEvent('checkout');
+fsm.addEvent('pay');
+
+fsm.addStateTransition('Cart', 'checkout', 'Payment', () => console.log('  checkout output'));
+fsm.addStateTransition('Payment', 'pay', 'Ordered');
+fsm.addStateTransition('NewPayment', 'pay', 'Ordered');
+fsm.setEntryAction('NewPayment', (state: FsmState) => console.log(`  entered ${state.stateName}`));
+
+const blockedUsers = new Set(['guest-2']);
+const betaUsers = new Set(['guest-3']);
+// interceptors run in the order they were added, the first veto stops the transition
+const audit: FsmInterceptor = (tokenId, currentState, onEvent, nextState) => {
+    console.log(`  audit ${tokenId}: ${currentState.stateName} ---[ ${onEvent.eventName} ]--> ${nextState.stateName}`);
+};
+fsm.use(audit);
+fsm.use((tokenId, currentState, onEvent) => {
+    if (blockedUsers.has(tokenId)) {
+        return { action: FsmInterceptorAction.veto, reason: 'user is blocked' };
+    }
+});
+fsm.use((tokenId, currentState, onEvent, nextState) => {
+    if (betaUsers.has(tokenId) && nextState.stateName === 'Payment') {
+        return { action: FsmInterceptorAction.redirect, state: 'NewPayment' };
+    }
+    return { action: FsmInterceptorAction.allow };
+});
+
+console.log('*** Allowed, vetoed and redirected');
+['guest-1', 'guest-2', 'guest-3'].forEach(tokenId => {
+    fsm.createTokenInstance(tokenId);
+    try {
+        console.log(`${tokenId} checkout ==> ${fsm.updateTokenToNextState(tokenId, 'checkout')}`);
+    } catch (error) {
+        console.log(`${error}`);
+        console.log(`${tokenId} stays in ${fsm.getTokenInstance(tokenId)}`);
+    }
+});
+assert.deepStrictEqual(['guest-1', 'guest-2', 'guest-3'].map(tokenId => fsm.getTokenInstance(tokenId)?.stateName), ['Payment', 'Cart', 'NewPayment']);
+
+console.log('\n*** Removing an interceptor');
+const removed = fsm.removeInterceptor(audit);
+console.log(`removed: ${removed}`);
+assert.strictEqual(removed, true);
+assert.strictEqual(fsm.removeInterceptor(audit), false);
+console.log(`guest-1 pay ==> ${fsm.updateTokenToNextState('guest-1', 'pay')}`);
+assert.strictEqual(fsm.getTokenInstance('guest-1')?.stateName, 'Ordered');
+
+console.log('\n*** Redirects follow the self transition setting');
+const toggle = FiniteStateMachine.createNewFiniteStateMachine('toggle');
+toggle.addState('A');
+toggle.addState('B');
+toggle.addEvent('go');
+toggle.addStateTransition('A', 'go', 'B');
+toggle.allowSelfTransition = false;
+toggle.use(() => ({ action: FsmInterceptorAction.redirect, state: 'A' }));
+toggle.createTokenInstance('switch-1');
+assert.throws(() => toggle.updateTokenToNextState('switch-1', 'go'), (error: Error) => {
+    console.log(`${error}`);
+    return /self transition disabled/.test(error.message);
+});
+assert.strictEqual(toggle.getTokenInstance('switch-1')?.stateName, 'A');
+toggle.allowSelfTransition = true;
+console.log(`go ==> ${toggle.updateTokenToNextState('switch-1', 'go')}`);
+assert.strictEqual(toggle.getTokenInstance('switch-1')?.stateName, 'A');
+
+console.log('\n*** Async interceptors need the async path');
+const isPaymentUp = (onEvent: FsmEvent) => new Promise<boolean>(resolve => setTimeout(() => resolve(onEvent.eventName !== 'pay'), 10));
+fsm.use(async (tokenId, currentState, onEvent) => {
+    if (!await isPaymentUp(onEvent)) {
+        return { action: FsmInterceptorAction.veto, reason: 'payment provider is down' };
+    }
+});
+assert.throws(() => fsm.updateTokenToNextState('guest-3', 'pay'), (error: Error) => {
+    console.log(`${error}`);
+    return /use updateTokenToNextStateAsync/.test(error.message);
+});
+fsm.updateTokenToNextStateAsync('guest-3', 'pay').then(() => {
+    console.log('guest-3 was not vetoed');
+    process.exitCode = 1;
+}, error => {
+    console.log(`${error}`);
+    console.log(`guest-3 stays in ${fsm.getTokenInstance('guest-3')}`);
+    assert.strictEqual(fsm.getTokenInstance('guest-3')?.stateName, 'NewPayment');
+}).catch(error => {
+    console.log(`${error}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,123 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmTokenPolicy, TokenListenerEvent } from "../src.ts";
+import { EventEmitter } from 'events';
+
+
+// version 1 of an order workflow, with tokens already running in it
+const listener = new EventEmitter();
+listener.on(TokenListenerEvent.onTokenMigrated, (tokenId, configuration, fromVersion) => console.log(`\tmigrated ${tokenId} from v${fromVersion} to ${configuration.primaryState.statePath}`));
+listener.on(TokenListenerEvent.onTokenDropped, (tokenId, state) => console.log(`\tdropped ${tokenId} in ${state}`));
+
+const orders = FiniteStateMachine.createNewFiniteStateMachine('orders');
+orders.listener = listener;
+orders.addState('New');
+orders.addState('Paid');
+orders.addState('OnHold');
+orders.addFinalState('Shipped');
+orders.addEvent('PAY');
+orders.addEvent('HOLD');
+orders.addEvent('SHIP');
+orders.addStateTransition('New', 'PAY', 'Paid');
+orders.addStateTransition('New', 'HOLD', 'OnHold');
+orders.addStateTransition('Paid', 'SHIP', 'Shipped');
+
+orders.createTokenInstance('order-1');
+orders.createTokenInstance('order-2');
+orders.updateTokenToNextState('order-2', 'PAY');
+orders.createTokenInstance('order-3');
+orders.updateTokenToNextState('order-3', 'HOLD');
+
+// version 2 renames New, nests Paid in Fulfilment and has no OnHold state anymore
+const ordersV2 = FiniteStateMachine.createNewFiniteStateMachine('orders');
+ordersV2.addState('Created', 10);
+ordersV2.addState('Fulfilment', 11);
+ordersV2.addState('Paid', 12);
+ordersV2.addFinalState('Shipped', 13);
+ordersV2.setParentState('Paid', 'Fulfilment');
+ordersV2.addEvent('PAY');
+ordersV2.addEvent('SHIP');
+ordersV2.addStateTransition('Created', 'PAY', 'Paid');
+ordersV2.addStateTransition('Fulfilment', 'SHIP', 'Shipped');
+ordersV2.definitionVersion = 2;
+const ordersV2Json = JSON.stringify(ordersV2.toJSON());
+
+console.log('*** Rejecting a migration with unmapped tokens');
+assert.throws(() => orders.replaceDefinition(ordersV2Json, { stateMapping: { New: 'Created' } }), (error: Error) => {
+    console.log(`${error}`);
+    return /unmapped states order-3:OnHold/.test(error.message);
+});
+console.log(`still on v${orders.definitionVersion}, order-1 in ${orders.getTokenInstance('order-1', false)}`);
+assert.strictEqual(orders.definitionVersion, 1);
+assert.strictEqual(orders.getTokenInstance('order-1', false).stateName, 'New');
+
+console.log('\n*** Migrating with a fallback state');
+const result = orders.replaceDefinition(ordersV2Json, { stateMapping: { New: 'Created' }, tokenPolicy: FsmTokenPolicy.fallback, fallbackState: 'Created' });
+console.log(`v${result.fromVersion} -> v${result.toVersion} migrated: ${result.migratedTokens.join(', ')} fallback: ${result.fallbackTokens.join(', ')}`);
+console.log(`order-2 in ${orders.getTokenInstance('order-2', false).statePath} (v${orders.getTokenDefinitionVersion('order-2')})`);
+console.log(`order-2 on SHIP: ${orders.updateTokenToNextState('order-2', 'SHIP')}`);
+assert.deepStrictEqual([result.fromVersion, result.toVersion], [1, 2]);
+assert.deepStrictEqual(result.migratedTokens, ['order-1', 'order-2', 'order-3']);
+assert.deepStrictEqual(result.fallbackTokens, ['order-3']);
+assert.strictEqual(orders.getTokenDefinitionVersion('order-2'), 2);
+assert.strictEqual(orders.getTokenInstance('order-2', false).stateName, 'Shipped');
+console.log(orders.toString());
+
+console.log('\n*** Moving the tokens to another machine by id');
+const ordersV3 = FiniteStateMachine.fromJSON({ ...JSON.parse(ordersV2Json), definitionVersion: 3 });
+ordersV3.listener = listener;
+const moved = ordersV3.migrateTokensFrom(orders, { stateMapping: 'id' });
+console.log(`moved: ${moved.migratedTokens.join(', ')}, left behind: ${orders.tokenCount}`);
+console.log(JSON.stringify(ordersV3.snapshotTokens().tokens));
+assert.deepStrictEqual(moved.migratedTokens, ['order-1', 'order-2', 'order-3']);
+assert.strictEqual(orders.tokenCount, 0);
+assert.strictEqual(ordersV3.getTokenInstance('order-2', false).stateName, 'Shipped');
+
+console.log('\n*** Dropping tokens that cannot be mapped');
+const ordersV4 = FiniteStateMachine.createNewFiniteStateMachine('orders');
+ordersV4.listener = listener;
+ordersV4.addState('Created');
+ordersV4.addEvent('PAY');
+ordersV4.definitionVersion = 4;
+const dropped = ordersV4.migrateTokensFrom(ordersV3, { tokenPolicy: FsmTokenPolicy.drop });
+console.log(`dropped: ${dropped.droppedTokens.join(', ')}, unmapped: ${dropped.unmappedStates.map(unmapped => `${unmapped.tokenId}:${unmapped.state?.stateName}`).join(', ')}`);
+assert.deepStrictEqual(dropped.droppedTokens, ['order-2']);
+assert.deepStrictEqual(ordersV4.getTokensInState('Created').sort(), ['order-1', 'order-3']);
+
+console.log('\n*** Replacing the definition with a live machine leaves that machine intact');
+const shop = FiniteStateMachine.createNewFiniteStateMachine('shop');
+shop.listener = listener;
+shop.addState('Cart');
+shop.addState('Checkout');
+shop.addState('Abandoned');
+shop.addEvent('CHECKOUT');
+shop.addEvent('LEAVE');
+shop.addStateTransition('Cart', 'CHECKOUT', 'Checkout');
+shop.addStateTransition('Cart', 'LEAVE', 'Abandoned');
+['cart-1', 'cart-2', 'cart-3'].forEach(tokenId => shop.createTokenInstance(tokenId));
+shop.updateTokenToNextState('cart-2', 'CHECKOUT');
+shop.updateTokenToNextState('cart-3', 'LEAVE');
+
+// version 2 renames Checkout to Payment and removes Abandoned
+const shopV2 = FiniteStateMachine.createNewFiniteStateMachine('shop');
+shopV2.addState('Cart');
+shopV2.addState('Payment');
+shopV2.addFinalState('Paid');
+shopV2.addEvent('CHECKOUT');
+shopV2.addEvent('PAY');
+shopV2.addStateTransition('Cart', 'CHECKOUT', 'Payment');
+shopV2.addStateTransition('Payment', 'PAY', 'Paid');
+shopV2.definitionVersion = 2;
+const replaced = shop.replaceDefinition(shopV2, { stateMapping: { Checkout: 'Payment' }, tokenPolicy: FsmTokenPolicy.fallback, fallbackState: 'Cart' });
+console.log(`migrated: ${replaced.migratedTokens.join(', ')} fallback: ${replaced.fallbackTokens.join(', ')}`);
+console.log(`cart-2 on PAY: ${shop.updateTokenToNextState('cart-2', 'PAY')}`);
+console.log(`cart-3 in ${shop.getTokenInstance('cart-3', false)}`);
+shopV2.addState('Refunded');
+console.log(`definition: ${shopV2.states.length} states, shop: ${shop.states.length} states, shared states: ${shop.states.some(state => shopV2.states.includes(state))}`);
+console.log(`definition token on CHECKOUT: ${shopV2.updateTokenToNextState('preview', 'CHECKOUT')}`);
+assert.deepStrictEqual(replaced.fallbackTokens, ['cart-3']);
+assert.strictEqual(shop.getTokenInstance('cart-2', false).stateName, 'Paid');
+assert.strictEqual(shop.getTokenInstance('cart-3', false).stateName, 'Cart');
+// the definition machine is copied, not adopted
+assert.deepStrictEqual([shopV2.states.length, shop.states.length], [4, 3]);
+assert.ok(!shop.states.some(state => shopV2.states.includes(state)));
+assert.strictEqual(shop.tokenCount, 3);
@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { FiniteStateMachine } from "../src.ts";
+
+
+// accepts words over a and b that end with "ab", with more states than it needs
+const redundant = FiniteStateMachine.createNewFiniteStateMachine('endsWithAb');
+redundant.addState('Start');
+redundant.addState('SeenA1');
+redundant.addState('SeenA2');
+redundant.addState('SeenB');
+redundant.addState('Unreachable');
+redundant.addFinalState('Accept');
+redundant.addEvent('a');
+redundant.addEvent('b');
+redundant.addStateTransition('Start', 'a', 'SeenA1');
+redundant.addStateTransition('Start', 'b', 'SeenB');
+redundant.addStateTransition('SeenA1', 'a', 'SeenA2');
+redundant.addStateTransition('SeenA1', 'b', 'Accept');
+redundant.addStateTransition('SeenA2', 'a', 'SeenA1');
+redundant.addStateTransition('SeenA2', 'b', 'Accept');
+redundant.addStateTransition('SeenB', 'a', 'SeenA2');
+redundant.addStateTransition('SeenB', 'b', 'Start');
+redundant.addStateTransition('Unreachable', 'a', 'Start');
+
+console.log('*** Minimizing');
+const { fsm: minimized, stateMapping, removedStates } = redundant.minimize('endsWithAbMin');
+console.log(minimized.getStateTableString());
+stateMapping.forEach((newState, oldState) => console.log(`  ${oldState.stateName} ==> ${newState.stateName}`));
+console.log(`  removed: ${removedStates.join(', ')}`);
+assert.deepStrictEqual(minimized.states.map(state => state.stateName), ['Start|SeenB', 'SeenA1|SeenA2', 'Accept']);
+assert.strictEqual(stateMapping.get(redundant.getState('SeenB')!)?.stateName, 'Start|SeenB');
+assert.deepStrictEqual(removedStates.map(state => state.stateName), ['Unreachable']);
+
+console.log('\n*** The minimized machine is equivalent');
+const equivalence = redundant.isEquivalent(minimized);
+console.log(`equivalent: ${equivalence.isEquivalent} ${JSON.stringify(equivalence.distinguishingSequence)}`);
+assert.strictEqual(equivalence.isEquivalent, true);
+assert.strictEqual(equivalence.distinguishingSequence, null);
+
+console.log('\n*** A refactoring that changes behavior');
+const refactored = FiniteStateMachine.createNewFiniteStateMachine('endsWithAbV2');
+refactored.addState('Start');
+refactored.addState('SeenA');
+refactored.addFinalState('Accept');
+refactored.addEvent('b', 0);
+refactored.addEvent('a', 1);
+refactored.addStateTransition('Start', 'a', 'SeenA');
+refactored.addStateTransition('SeenA', 'a', 'Start');
+refactored.addStateTransition('SeenA', 'b', 'Accept');
+['name', 'id'].forEach(matchEventsBy => {
+    const result = redundant.isEquivalent(refactored, { matchEventsBy: matchEventsBy as 'name' | 'id' });
+    console.log(`by ${matchEventsBy}: ${result.isEquivalent} ${JSON.stringify(result.distinguishingSequence)}`);
+    assert.strictEqual(result.isEquivalent, false);
+    assert.deepStrictEqual(result.distinguishingSequence, (matchEventsBy === 'name') ? ['b'] : [0]);
+});
+
+console.log('\n*** Outputs keep states apart');
+const logged = FiniteStateMachine.createNewFiniteStateMachine('logged');
+logged.addState('First');
+logged.addState('Second');
+logged.addFinalState('Done');
+logged.addEvent('next');
+logged.addStateTransition('First', 'next', 'Second', () => console.log('  first'));
+logged.addStateTransition('Second', 'next', 'Done', () => console.log('  second'));
+const loggedStateCount = logged.minimize().fsm.states.length;
+console.log(`${loggedStateCount} states`);
+assert.strictEqual(loggedStateCount, 3);
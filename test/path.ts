@@ -0,0 +1,75 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmTestSequence } from "../src.ts";
+
+
+// a door that can be opened, locked and eventually broken
+const door = FiniteStateMachine.createNewFiniteStateMachine('door');
+
+door.addState('Closed');
+door.addState('Open');
+door.addState('Locked');
+door.addState('Broken');
+door.addFinalState('Gone');
+
+door.addEvent('OPEN');
+door.addEvent('CLOSE');
+door.addEvent('LOCK');
+door.addEvent('UNLOCK');
+door.addEvent('KICK');
+door.addEvent('LEAVE');
+
+door.addStateTransition('Closed', 'OPEN', 'Open');
+door.addStateTransition('Open', 'CLOSE', 'Closed');
+door.addStateTransition('Closed', 'LOCK', 'Locked');
+door.addStateTransition('Locked', 'UNLOCK', 'Closed');
+door.addStateTransition('Locked', 'KICK', 'Broken');
+door.addStateTransition('Broken', 'LEAVE', 'Gone');
+door.addStateTransition('Open', 'LEAVE', 'Gone');
+console.log(door.toString());
+
+const printSequences = (sequences: FsmTestSequence[]) => sequences.forEach((sequence, index) => {
+    console.log(`\t#${index} ${sequence.startState.stateName}: ${sequence.steps.map(step => `${step.event.eventName} -> ${step.expectedState.stateName}`).join(', ')}`);
+});
+
+console.log('*** Shortest paths');
+console.log(`Closed to Gone: ${door.shortestPath('Closed', 'Gone')?.join(' ')}`);
+console.log(`Open to Broken: ${door.shortestPath('Open', 'Broken')?.join(' ')}`);
+console.log(`Gone to Closed: ${door.shortestPath('Gone', 'Closed')}`);
+assert.deepStrictEqual(door.shortestPath('Closed', 'Gone')?.map(event => event.eventName), ['OPEN', 'LEAVE']);
+assert.deepStrictEqual(door.shortestPath('Open', 'Broken')?.map(event => event.eventName), ['CLOSE', 'LOCK', 'KICK']);
+assert.strictEqual(door.shortestPath('Gone', 'Closed'), null);
+
+console.log('\n*** All states coverage');
+const coverage = door.generateStateCoverage();
+printSequences(coverage);
+const coveredStates = new Set<string>();
+coverage.forEach(sequence => sequence.steps.forEach(step => coveredStates.add(step.expectedState.stateName)));
+assert.deepStrictEqual([...coveredStates].sort(), ['Broken', 'Gone', 'Locked', 'Open']);
+
+console.log('\n*** Transition tour');
+const tour = door.generateTransitionTour();
+printSequences(tour);
+// every transition of the door is taken at least once
+const tourTransitions = new Set<string>();
+tour.forEach(sequence => sequence.steps.reduce((fromState, step) => {
+    tourTransitions.add(`${fromState.stateName}/${step.event.eventName}`);
+    return step.expectedState;
+}, sequence.startState));
+assert.strictEqual(tourTransitions.size, 7);
+
+console.log('\n*** Random walks');
+const walks = [door.generateRandomWalk(6, 42), door.generateRandomWalk(6, 42), door.generateRandomWalk(6, 2024, 'Open')];
+printSequences(walks);
+// the same seed walks the same path, a walk stops in a state without transitions
+assert.deepStrictEqual(walks[0], walks[1]);
+assert.strictEqual(walks[2].startState.stateName, 'Open');
+walks.forEach(walk => assert.ok(walk.steps.length <= 6 && walk.steps[walk.steps.length - 1].expectedState.stateName === 'Gone'));
+
+console.log('\n*** Replaying the tour with tokens');
+tour.forEach((sequence, index) => {
+    const tokenId = `tour-${index}`;
+    door.createTokenInstance(tokenId);
+    const mismatches = sequence.steps.filter(step => door.updateTokenToNextState(tokenId, step.event) !== step.expectedState);
+    console.log(`\t${tokenId}: ${sequence.steps.length} steps, ${mismatches.length} mismatches`);
+    assert.strictEqual(mismatches.length, 0);
+});
@@ -0,0 +1,69 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmState, TokenListenerEvent } from "../src.ts";
+
+
+interface Reading {
+    celsius: number;
+}
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('thermostat');
+[TokenListenerEvent.onTokenTransitState, TokenListenerEvent.onTokenTransitFinalState].forEach(listenerEvent => {
+    fsm.listener.on(listenerEvent, (tokenId, token, onEvent: FsmEvent, nextState) => {
+        console.log(`  ${tokenId}: ${token} ---[ ${onEvent} ${JSON.stringify(onEvent.payload)} ]--> ${nextState}`);
+    });
+});
+fsm.listener.on(TokenListenerEvent.onTokenGuardRejected, (tokenId, token, onEvent, payload) => {
+    console.log(`  GuardRejected: ${tokenId} in ${token} on ${onEvent} with ${JSON.stringify(payload)}`);
+});
+
+fsm.addState('Idle');
+fsm.addState('Heating');
+fsm.addState('Cooling');
+fsm.addState('Alarm');
+fsm.getState('Idle')?.markNonDeterministic();
+
+const reading = fsm.addEvent<Reading>('reading');
+const outputs: string[] = [];
+fsm.addEvent('reset');
+
+// the alternative table picks one of the targets of the non-deterministic state by the payload
+fsm.addStateTransition('Idle', reading, 'Heating', (state: FsmState, event: FsmEvent<Reading>) => {
+    outputs.push(`heating from ${event.payload?.celsius}C`);
+    console.log(`  heating from ${event.payload?.celsius}C`);
+});
+fsm.addStateTransition('Idle', reading, 'Cooling', (state: FsmState, event: FsmEvent<Reading>) => {
+    outputs.push(`cooling from ${event.payload?.celsius}C`);
+    console.log(`  cooling from ${event.payload?.celsius}C`);
+});
+fsm.addStateTransition('Heating', reading, 'Alarm', undefined, (tokenId, state, event, payload) => (payload as Reading).celsius > 40);
+fsm.addStateTransition('Alarm', 'reset', 'Heating');
+
+const byTemperature = (tokenId: string, currentState: FsmState, onEvent: FsmEvent, payload?: unknown) => {
+    return fsm.getState(((payload as Reading).celsius < 20) ? 'Heating' : 'Cooling');
+};
+
+console.log('*** Payloads reach outputs, the alternative table and listeners');
+fsm.createTokenInstance('room-1');
+console.log(`reading ==> ${fsm.updateTokenToNextState('room-1', reading, byTemperature, { celsius: 15 })}`);
+fsm.createTokenInstance('room-2');
+console.log(`reading ==> ${fsm.updateTokenToNextState('room-2', reading, byTemperature, { celsius: 28 })}`);
+assert.strictEqual(fsm.getTokenInstance('room-1')?.stateName, 'Heating');
+assert.strictEqual(fsm.getTokenInstance('room-2')?.stateName, 'Cooling');
+// the output of the chosen target runs, not the one of the first transition
+assert.deepStrictEqual(outputs, ['heating from 15C', 'cooling from 28C']);
+
+console.log('\n*** Payloads reach guards');
+assert.throws(() => fsm.updateTokenToNextState('room-1', reading, undefined, { celsius: 25 }), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidGuardedStateChange');
+});
+console.log(`reading ==> ${fsm.updateTokenToNextState('room-1', reading, undefined, { celsius: 45 })}`);
+assert.strictEqual(fsm.getTokenInstance('room-1')?.stateName, 'Alarm');
+
+console.log('\n*** The event keeps no payload of its own');
+console.log(`${reading} ${JSON.stringify(reading.payload)}`);
+assert.strictEqual(reading.payload, undefined);
+
+// the payload type of a typed event is checked at compile time
+// @ts-expect-error
+const wrongPayload = () => fsm.updateTokenToNextState('room-1', reading, undefined, { celsius: 'hot' });
@@ -0,0 +1,41 @@
+import assert from 'assert';
+import { FiniteStateMachine } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('keyboard');
+
+fsm.addState('CapsOff');
+fsm.addState('CapsOn');
+fsm.addState('NumOff');
+fsm.addState('NumOn');
+
+fsm.addEvent('caps');
+fsm.addEvent('num');
+
+fsm.addStateTransition('CapsOff', 'caps', 'CapsOn');
+fsm.addStateTransition('CapsOn', 'caps', 'CapsOff');
+fsm.addStateTransition('NumOff', 'num', 'NumOn');
+fsm.addStateTransition('NumOn', 'num', 'NumOff');
+
+fsm.setInitialState(fsm.getState('CapsOff')!, 'caps-lock');
+fsm.setInitialState(fsm.getState('NumOff')!, 'num-lock');
+
+console.log('*** Every named region is entered by default');
+const stateNames = (tokenId: string) => fsm.getTokenConfiguration(tokenId).states.map(state => state.stateName);
+console.log(`${fsm.getTokenConfiguration('laptop').states.join(', ')}`);
+assert.deepStrictEqual(stateNames('laptop'), ['CapsOff', 'NumOff']);
+const expectedStates: Array<[string, string[]]> = [['caps', ['CapsOn', 'NumOff']], ['num', ['CapsOn', 'NumOn']], ['caps', ['CapsOff', 'NumOn']]];
+expectedStates.forEach(([event, states]) => {
+    fsm.updateTokenToNextState('laptop', event);
+    console.log(`${event} ==> ${fsm.getTokenConfiguration('laptop').states.join(', ')}`);
+    assert.deepStrictEqual(stateNames('laptop'), states);
+});
+
+console.log('\n*** Selected regions only');
+fsm.createTokenInstance('numpad', false, 'num-lock');
+console.log(`${fsm.getTokenConfiguration('numpad').regionNames.join(', ')}: ${fsm.getTokenInstance('numpad')}`);
+assert.deepStrictEqual(fsm.getTokenConfiguration('numpad').regionNames, ['num-lock']);
+assert.throws(() => fsm.updateTokenToNextState('numpad', 'caps'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
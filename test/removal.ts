@@ -0,0 +1,86 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmListenerEvent, FsmTokenPolicy, TokenListenerEvent } from "../src.ts";
+
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('review');
+fsm.internalListener.on(FsmListenerEvent.onStateRemoved, state => console.log(`  state removed: ${state}`));
+fsm.internalListener.on(FsmListenerEvent.onEventRemoved, event => console.log(`  event removed: ${event}`));
+fsm.internalListener.on(FsmListenerEvent.onTransitionRemoved, (fromState, onEvent, nextState) => {
+    console.log(`  transition removed: ${fromState} ---[ ${onEvent} ]--> ${nextState || '*all*'}`);
+});
+fsm.listener.on(TokenListenerEvent.onTokenMigrated, (tokenId, configuration, removedState) => {
+    console.log(`  ${tokenId} moved from ${removedState} to ${configuration.primaryState}`);
+});
+fsm.listener.on(TokenListenerEvent.onTokenDropped, (tokenId, removedState) => console.log(`  ${tokenId} dropped with ${removedState}`));
+
+fsm.addState('Draft');
+fsm.addState('Review');
+fsm.addState('Legal');
+fsm.addFinalState('Published');
+
+fsm.addEvent('submit');
+fsm.addEvent('approve');
+fsm.addEvent('escalate');
+fsm.addEvent('reject');
+
+fsm.addStateTransition('Draft', 'submit', 'Review');
+fsm.addStateTransition('Review', 'approve', 'Published');
+fsm.addStateTransition('Review', 'escalate', 'Legal');
+fsm.addStateTransition('Review', 'reject', 'Draft');
+fsm.addStateTransition('Legal', 'approve', 'Published');
+fsm.addStateTransition('Legal', 'reject', 'Draft');
+
+fsm.createTokenInstance('doc-1');
+fsm.createTokenInstance('doc-2');
+fsm.updateTokenToNextState('doc-2', 'submit');
+fsm.updateTokenToNextState('doc-2', 'escalate');
+fsm.createTokenInstance('doc-3');
+fsm.updateTokenToNextState('doc-3', 'submit');
+
+console.log('*** Removing an event removes its transitions');
+fsm.removeEvent('escalate');
+console.log(fsm.getStateTableString());
+assert.strictEqual(fsm.getEvent('escalate'), null);
+assert.strictEqual(fsm.nextState('Review', 'approve')?.stateName, 'Published');
+assert.strictEqual(fsm.getState('Review')?.getTransitions().length, 2);
+
+console.log('*** Tokens are rejected by default');
+assert.throws(() => fsm.removeState('Legal'), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
+assert.notStrictEqual(fsm.getState('Legal'), null);
+
+console.log('\n*** Moving tokens to a fallback state');
+fsm.removeState('Legal', { tokenPolicy: FsmTokenPolicy.fallback, fallbackState: 'Review' });
+console.log(`doc-2 ==> ${fsm.getTokenInstance('doc-2')}`);
+assert.strictEqual(fsm.getTokenInstance('doc-2')?.stateName, 'Review');
+
+console.log('\n*** Dropping tokens and picking a new initial state');
+fsm.removeState('Draft', { tokenPolicy: FsmTokenPolicy.drop });
+console.log(`initial state: ${fsm.getInitialState()}`);
+console.log(`tokens in Review: ${fsm.getTokensInState('Review').join(', ')}`);
+console.log(fsm.getStateTableString());
+assert.strictEqual(fsm.getInitialState()?.stateName, 'Review');
+assert.deepStrictEqual(fsm.getTokensInState('Review'), ['doc-3', 'doc-2']);
+assert.throws(() => fsm.getTokenInstance('doc-1', false), /not exists/);
+
+console.log('\n*** A final state never becomes the initial state');
+const pipeline = FiniteStateMachine.createNewFiniteStateMachine('pipeline');
+pipeline.internalListener.on(FsmListenerEvent.onInitialStateRemoved, state => console.log(`  initial state removed: ${state}`));
+pipeline.addState('Start');
+pipeline.addFinalState('End');
+pipeline.addState('Mid');
+pipeline.addState('Other');
+pipeline.addEvent('go');
+pipeline.addEvent('finish');
+pipeline.addStateTransition('Start', 'go', 'Mid');
+pipeline.addStateTransition('Mid', 'finish', 'End');
+pipeline.removeState('Start');
+console.log(`initial state: ${pipeline.getInitialState()}`);
+assert.strictEqual(pipeline.getInitialState()?.stateName, 'Mid');
+// nothing the removed initial state led to is left, the caller picks the next initial state
+pipeline.removeState('Mid');
+console.log(`initial state: ${pipeline.getInitialState()}`);
+assert.strictEqual(pipeline.getInitialState(), null);
+assert.ok(!pipeline.getState('End')?.isInitialState());
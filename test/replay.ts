@@ -0,0 +1,67 @@
+import assert from 'assert';
+import { FiniteStateMachine } from "../src.ts";
+
+
+interface OrderContext {
+    charged: number;
+}
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine<OrderContext>('order');
+fsm.contextFactory = () => ({ charged: 0 });
+fsm.tokenHistoryLimit = 10;
+
+fsm.addState('New');
+fsm.addState('Paid');
+fsm.addState('Shipped');
+fsm.addFinalState('Delivered');
+
+fsm.addEvent('pay');
+fsm.addEvent('ship');
+fsm.addEvent('deliver');
+
+let charges = 0;
+fsm.addStateTransition('New', 'pay', 'Paid', (state, event, context) => {
+    charges++;
+    console.log(`  charging payment #${context.charged + 1}`);
+    return { ...context, charged: context.charged + 1 };
+});
+fsm.addStateTransition('Paid', 'ship', 'Shipped');
+fsm.addStateTransition('Shipped', 'deliver', 'Delivered');
+
+fsm.createTokenInstance('order-1');
+['pay', 'ship'].forEach(event => console.log(`${event} ==> ${fsm.updateTokenToNextState('order-1', event)}`));
+const history = fsm.exportTokenHistory('order-1');
+const historyToString = (tokenId: string) => fsm.getTokenHistory(tokenId).map(entry => `${JSON.stringify(entry.from)} --${entry.event}--> ${JSON.stringify(entry.to)}`).join(', ');
+
+console.log('\n*** Replay rebuilds the state without running actions');
+console.log(`replay ==> ${fsm.replayToken('order-1', history)} ${JSON.stringify(fsm.getTokenContext('order-1'))}`);
+assert.strictEqual(fsm.getTokenInstance('order-1')?.stateName, 'Shipped');
+assert.deepStrictEqual(fsm.getTokenContext('order-1'), { charged: 1 });
+console.log(`replay events ==> ${fsm.replayToken('order-2', ['pay', 'ship', 'deliver'])} ${JSON.stringify(fsm.getTokenContext('order-2'))}`);
+console.log(`history: ${historyToString('order-2')}`);
+assert.strictEqual(fsm.getTokenInstance('order-2')?.stateName, 'Delivered');
+assert.deepStrictEqual(fsm.getTokenContext('order-2'), { charged: 0 });
+assert.strictEqual(fsm.getTokenHistory('order-2').length, 3);
+assert.strictEqual(charges, 1);
+
+console.log('\n*** Actions only run when asked for');
+console.log(`replay with actions ==> ${fsm.replayToken('order-3', ['pay', 'ship'], undefined, true)} ${JSON.stringify(fsm.getTokenContext('order-3'))}`);
+assert.deepStrictEqual(fsm.getTokenContext('order-3'), { charged: 1 });
+assert.strictEqual(charges, 2);
+
+console.log('\n*** A failed replay keeps the token and its history');
+const historyBefore = historyToString('order-1');
+console.log(`before: ${fsm.getTokenInstance('order-1')} history: ${historyBefore}`);
+assert.throws(() => fsm.replayToken('order-1', ['pay', 'deliver']), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
+console.log(`after: ${fsm.getTokenInstance('order-1')} history: ${historyToString('order-1')}`);
+assert.strictEqual(fsm.getTokenInstance('order-1')?.stateName, 'Shipped');
+assert.strictEqual(historyToString('order-1'), historyBefore);
+assert.throws(() => fsm.replayToken('order-4', ['ship']), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
+console.log(`order-4 exists: ${fsm.tokenStore.has('order-4')}`);
+assert.strictEqual(fsm.tokenStore.has('order-4'), false);
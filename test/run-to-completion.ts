@@ -0,0 +1,86 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmEvent, FsmRaiseFunction, FsmState } from "../src.ts";
+
+
+interface WorkflowContext {
+    log: string[];
+}
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine<WorkflowContext>('workflow');
+fsm.contextFactory = () => ({ log: [] });
+fsm.runToCompletion = true;
+fsm.tokenHistoryLimit = 20;
+
+fsm.addState('Idle');
+fsm.addState('Validating');
+fsm.addState('Scoring');
+fsm.addState('Approved');
+fsm.addState('Broken');
+fsm.addFinalState('Done');
+
+fsm.addEvent('submit');
+fsm.addEvent('validated');
+fsm.addEvent('scored');
+fsm.addEvent('archive');
+fsm.addEvent('fail');
+fsm.addEvent('loop');
+
+const logged = (message: string, raisedEvents: string[] = []) => (state: FsmState, input: FsmEvent | null, context: WorkflowContext, raise: FsmRaiseFunction) => {
+    raisedEvents.forEach(event => raise(event));
+    return { ...context, log: [...context.log, message] };
+};
+
+fsm.addStateTransition('Idle', 'submit', 'Validating', logged('submit', ['validated', 'archive']));
+fsm.setEntryAction('Validating', logged('enter Validating'));
+fsm.addStateTransition('Validating', 'validated', 'Scoring', logged('validated', ['scored']));
+// archive was queued before scored, so it is handled first
+fsm.addStateTransition('Scoring', 'archive', 'Approved', logged('archive'));
+fsm.addStateTransition('Approved', 'scored', 'Done', logged('scored'));
+fsm.addStateTransition('Idle', 'fail', 'Broken', logged('fail', ['validated']));
+fsm.addStateTransition('Broken', 'loop', 'Broken', logged('loop', ['loop']));
+
+console.log('*** Raised events run in order after the current step');
+fsm.createTokenInstance('job-1');
+console.log(`submit ==> ${fsm.updateTokenToNextState('job-1', 'submit')}`);
+console.log(JSON.stringify(fsm.getTokenContext('job-1')?.log));
+fsm.getTokenHistory('job-1').forEach(entry => console.log(`  ${entry.event}${entry.raised ? ' (raised)' : ''} ${JSON.stringify(entry.from)} --> ${JSON.stringify(entry.to)}`));
+const completedLog = ['submit', 'enter Validating', 'validated', 'archive', 'scored'];
+assert.strictEqual(fsm.getTokenInstance('job-1')?.stateName, 'Done');
+assert.deepStrictEqual(fsm.getTokenContext('job-1')?.log, completedLog);
+assert.deepStrictEqual(fsm.getTokenHistory('job-1').map(entry => [entry.event, !!entry.raised]), [[0, false], [1, true], [3, true], [2, true]]);
+
+console.log('\n*** Replay skips raised entries when actions run again');
+const history = fsm.exportTokenHistory('job-1');
+console.log(`replay with actions ==> ${fsm.replayToken('job-1', history, undefined, true)}`);
+console.log(JSON.stringify(fsm.getTokenContext('job-1')?.log));
+console.log(`replay ==> ${fsm.replayToken('job-2', history)}`);
+// the raised steps come from the replayed actions, not from the history a second time
+assert.deepStrictEqual(fsm.getTokenContext('job-1')?.log, completedLog);
+assert.strictEqual(fsm.getTokenInstance('job-2')?.stateName, 'Done');
+
+console.log('\n*** An error in a raised step keeps the steps before it');
+assert.throws(() => fsm.updateTokenToNextState('job-3', 'fail'), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('InvalidStateChange');
+});
+console.log(`${fsm.getTokenInstance('job-3')} ${JSON.stringify(fsm.getTokenContext('job-3')?.log)}`);
+assert.strictEqual(fsm.getTokenInstance('job-3')?.stateName, 'Broken');
+assert.deepStrictEqual(fsm.getTokenContext('job-3')?.log, ['fail']);
+
+console.log('\n*** Events that keep raising each other are stopped');
+fsm.raisedEventLimit = 3;
+assert.throws(() => fsm.updateTokenToNextState('job-3', 'loop'), (error: Error) => {
+    console.log(`${error}`);
+    return /raised more than 3 events/.test(error.message);
+});
+console.log(`${fsm.getTokenInstance('job-3')} ${JSON.stringify(fsm.getTokenContext('job-3')?.log)}`);
+assert.deepStrictEqual(fsm.getTokenContext('job-3')?.log, ['fail', 'loop', 'loop', 'loop']);
+
+console.log('\n*** Raising outside run-to-completion');
+fsm.runToCompletion = false;
+assert.throws(() => fsm.updateTokenToNextState('job-4', 'submit'), (error: Error) => {
+    console.log(`${error}`);
+    return /cannot raise validated outside of a run-to-completion transition/.test(error.message);
+});
+console.log(`${fsm.getTokenInstance('job-4')}`);
+assert.strictEqual(fsm.getTokenInstance('job-4')?.stateName, 'Idle');
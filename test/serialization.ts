@@ -0,0 +1,65 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmActionRegistry, FSM_JSON_VERSION } from "../src.ts";
+
+
+const actions = new FsmActionRegistry()
+    .register('beep', () => console.log('\tbeeping'));
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('trafficLight', actions);
+
+fsm.addState('Red');
+fsm.addState('Yellow');
+fsm.addState('Green', 999);
+fsm.addFinalState('Damaged', -1);
+fsm.addState('Maintenance', 50).markNonDeterministic();
+
+fsm.addEvent('NoCar');
+fsm.addEvent('Secs_10', 10);
+fsm.addEvent('Secs_60', 60);
+fsm.addEvent('Secs_90', 90);
+fsm.addEvent('Secs_600', 600);
+
+fsm.addStateTransition('Red', 'NoCar', 'Green');
+fsm.addStateTransition('Red', 'Secs_60', 'Green', 'beep');
+fsm.addStateTransition('Green', 'Secs_90', 'Yellow');
+fsm.addStateTransition('Yellow', 'Secs_10', 'Red');
+fsm.addStateTransitionForAllStates('Secs_600', 'Damaged');
+fsm.setInitialState(fsm.getState('Maintenance')!, 'maintenance');
+
+console.log('*** Serializing FSM');
+const json = JSON.stringify(fsm);
+console.log(json);
+assert.strictEqual(JSON.parse(json).version, FSM_JSON_VERSION);
+
+console.log('\n*** Loading FSM');
+const loaded = FiniteStateMachine.fromJSON(json, actions);
+console.log(loaded.toString());
+console.log(`Round trip identical: ${JSON.stringify(loaded) === json}`);
+assert.strictEqual(JSON.stringify(loaded), json);
+
+loaded.createTokenInstance('trafficLight');
+const nextState = loaded.updateTokenToNextState('trafficLight', 'Secs_60');
+console.log(`Secs_60 ==> ${nextState}`);
+assert.strictEqual(nextState?.stateName, 'Green');
+
+console.log('\n*** Loading a version 1 FSM definition');
+const loadedV1 = FiniteStateMachine.fromJSON({ ...JSON.parse(json), version: 1 }, actions);
+console.log(`version 1 loaded with ${loadedV1.states.length} states`);
+assert.strictEqual(JSON.stringify(loadedV1), json);
+
+console.log('\n*** Loading broken FSM definitions');
+const broken = [
+    { ...JSON.parse(json), version: 99 },
+    { ...JSON.parse(json), states: [...JSON.parse(json).states, { id: 0, name: 'Red', final: false, deterministic: true }] },
+    { ...JSON.parse(json), events: [...JSON.parse(json).events, { id: 10, name: 'Secs_10' }] },
+    { ...JSON.parse(json), transitions: [{ from: 0, event: 0, to: 123 }] },
+    { ...JSON.parse(json), transitions: [{ from: 0, event: 0, to: 999, action: 'honk' }] },
+    { ...JSON.parse(json), initialStates: { trafficLight: 7 } },
+];
+broken.push({ ...JSON.parse(json), version: FSM_JSON_VERSION + 1 });
+broken.forEach(fsmJson => {
+    assert.throws(() => FiniteStateMachine.fromJSON(fsmJson, actions), (error: Error) => {
+        console.log(`${error}`);
+        return /^Invalid FSM JSON/.test(error.message);
+    });
+});
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { FiniteStateMachine } from "../src.ts";
+
+
+// a minimal request/response protocol: every session opens with a handshake and ends with a close
+const protocol = FiniteStateMachine.createNewFiniteStateMachine('protocol');
+
+protocol.addState('Idle');
+protocol.addState('Connected');
+protocol.addState('Waiting');
+protocol.addFinalState('Closed');
+
+protocol.addEvent('HELLO');
+protocol.addEvent('REQUEST');
+protocol.addEvent('RESPONSE');
+protocol.addEvent('BYE');
+
+protocol.addStateTransition('Idle', 'HELLO', 'Connected');
+protocol.addStateTransition('Connected', 'REQUEST', 'Waiting');
+protocol.addStateTransition('Waiting', 'RESPONSE', 'Connected');
+protocol.addStateTransition('Connected', 'BYE', 'Closed');
+console.log(protocol.toString());
+
+console.log('*** Running a valid session');
+const session = protocol.run(['HELLO', 'REQUEST', 'RESPONSE', 'BYE']);
+session.trace.forEach(step => console.log(`\t${step.from} ---[ ${step.event} ]--> ${step.to}`));
+console.log(`completed: ${session.completed}, current state: ${session.currentState}`);
+assert.strictEqual(session.trace.length, 4);
+assert.strictEqual(session.completed, true);
+assert.strictEqual(session.currentState.stateName, 'Closed');
+
+console.log('\n*** Running a session that gets stuck');
+const broken = protocol.run(['HELLO', 'RESPONSE', 'BYE']);
+console.log(`completed: ${broken.completed}, stuck at #${broken.stuck?.index} ${broken.stuck?.event} in ${broken.stuck?.state} (${broken.stuck?.reason})`);
+console.log(`unknown event: ${protocol.run(['HELLO', 'PING']).stuck?.reason}`);
+console.log(`from Waiting: ${protocol.run(['RESPONSE', 'BYE'], 'Waiting').currentState}`);
+assert.strictEqual(broken.completed, false);
+assert.deepStrictEqual([broken.stuck?.index, broken.stuck?.state.stateName, broken.stuck?.reason], [1, 'Connected', 'no-transition']);
+assert.strictEqual(protocol.run(['HELLO', 'PING']).stuck?.reason, 'unknown-event');
+assert.strictEqual(protocol.run(['RESPONSE', 'BYE'], 'Waiting').currentState.stateName, 'Closed');
+
+console.log('\n*** Accepting words');
+console.log(`HELLO BYE: ${protocol.accepts(['HELLO', 'BYE'])}`);
+console.log(`HELLO REQUEST: ${protocol.accepts(['HELLO', 'REQUEST'])}`);
+console.log(`HELLO REQUEST (accepting Waiting): ${protocol.accepts(['HELLO', 'REQUEST'], ['Waiting'])}`);
+console.log(`HELLO (accepting Connected, Closed): ${protocol.accepts(['HELLO'], ['Connected', 'Closed'])}`);
+assert.strictEqual(protocol.accepts(['HELLO', 'BYE']), true);
+assert.strictEqual(protocol.accepts(['HELLO', 'REQUEST']), false);
+assert.strictEqual(protocol.accepts(['HELLO', 'REQUEST'], ['Waiting']), true);
+assert.strictEqual(protocol.accepts(['HELLO'], ['Connected', 'Closed']), true);
+
+// a state without transitions is not accepting unless it is added as final
+const deadEnd = FiniteStateMachine.createNewFiniteStateMachine('deadEnd');
+deadEnd.addState('A');
+deadEnd.addState('Dead');
+deadEnd.addEvent('x');
+deadEnd.addStateTransition('A', 'x', 'Dead');
+console.log(`x into a dead end: ${deadEnd.accepts(['x'])}`);
+assert.strictEqual(deadEnd.accepts(['x']), false);
+
+console.log('\n*** Streaming events');
+async function* receive(messages: string[]) {
+    for (const message of messages) {
+        yield message;
+    }
+}
+protocol.runAsync(receive(['HELLO', 'REQUEST', 'RESPONSE', 'REQUEST', 'RESPONSE', 'BYE'])).then(result => {
+    console.log(`streamed ${result.trace.length} messages, completed: ${result.completed}, current state: ${result.currentState}`);
+    assert.strictEqual(result.trace.length, 6);
+    assert.strictEqual(result.currentState.stateName, 'Closed');
+}).catch(error => {
+    console.log(`${error}`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+import assert from 'assert';
+import { FakeClock, FiniteStateMachine, FsmTokenConfiguration, TokenListenerEvent } from "../src.ts";
+
+
+const clock = new FakeClock();
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('session');
+fsm.scheduler = clock;
+
+fsm.addState('Anonymous');
+fsm.addState('SignedIn');
+fsm.addEvent('signIn');
+fsm.addEvent('refresh');
+fsm.addStateTransition('Anonymous', 'signIn', 'SignedIn');
+fsm.addStateTransition('SignedIn', 'refresh', 'SignedIn');
+fsm.allowSelfTransition = true;
+
+const expired: string[] = [];
+fsm.listener?.on(TokenListenerEvent.onTokenExpired, (tokenId: string, configuration: FsmTokenConfiguration, reason: string) => {
+    expired.push(`${tokenId}@${clock.now()}:${reason}`);
+    console.log(`  ${tokenId} expired in ${configuration.primaryState} after ${clock.now()}ms (${reason})`);
+});
+
+fsm.tokenTimeToLive = 1000;
+fsm.tokenIdleTimeout = 300;
+
+['alice', 'bob', 'carol'].forEach(tokenId => fsm.createTokenInstance(tokenId));
+console.log(`tokens: ${fsm.tokenCount}, by state: ${Array.from(fsm.countTokensByState()).map(([state, count]) => `${state.stateName}=${count}`).join(', ')}`);
+
+// alice stays active, bob signs in once and goes idle, carol never does anything
+for (let step = 1; step <= 4; step++) {
+    clock.advance(200);
+    fsm.updateTokenToNextState('alice', step === 1 ? 'signIn' : 'refresh');
+    step === 1 && fsm.updateTokenToNextState('bob', 'signIn');
+    console.log(`${clock.now()}ms: ${Array.from(fsm.tokenEntries()).map(([tokenId, configuration]) => `${tokenId}@${configuration.primaryState.stateName}`).join(', ')}`);
+}
+clock.advance(200);
+console.log(`${clock.now()}ms: tokens: ${fsm.tokenCount}`);
+assert.deepStrictEqual(expired, ['carol@300:idle', 'bob@500:idle', 'alice@1000:ttl']);
+assert.strictEqual(fsm.tokenCount, 0);
+
+console.log('\n*** Disabling expiry keeps the remaining tokens');
+fsm.createTokenInstance('dave');
+fsm.tokenTimeToLive = 0;
+fsm.tokenIdleTimeout = 0;
+clock.advance(5000);
+console.log(`${clock.now()}ms: ${fsm.getTokensInState('Anonymous').join(', ')} | ${fsm.getTokensInState('SignedIn').join(', ')}, pending timers: ${clock.pendingTimerCount}`);
+assert.deepStrictEqual(fsm.getTokensInState('Anonymous'), ['dave']);
+assert.strictEqual(clock.pendingTimerCount, 0);
+
+console.log('\n*** Enabling expiry starts the lifetime of the existing tokens');
+fsm.createTokenInstance('erin');
+clock.advance(5000);
+fsm.tokenTimeToLive = 1000;
+clock.advance(999);
+console.log(`${clock.now()}ms: ${fsm.getTokensInState('Anonymous').join(', ')}`);
+assert.deepStrictEqual(fsm.getTokensInState('Anonymous'), ['dave', 'erin']);
+clock.advance(1);
+console.log(`${clock.now()}ms: tokens: ${fsm.tokenCount}`);
+assert.strictEqual(fsm.tokenCount, 0);
@@ -0,0 +1,101 @@
+import assert from 'assert';
+import { FiniteStateMachine, FileTokenStore } from "../src.ts";
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+
+
+const storeFile = path.join(os.tmpdir(), `lib-fsm-tokens-${process.pid}.json`);
+
+const createTrafficLight = function (tokenStore?: FileTokenStore) {
+    const fsm = FiniteStateMachine.createNewFiniteStateMachine('trafficLight', undefined, tokenStore);
+    fsm.addState('Red');
+    fsm.addState('Yellow');
+    fsm.addState('Green');
+    fsm.addFinalState('Damaged', -1);
+    fsm.addEvent('Secs_10', 10);
+    fsm.addEvent('Secs_60', 60);
+    fsm.addEvent('Secs_90', 90);
+    fsm.addEvent('Secs_600', 600);
+    fsm.addStateTransition('Red', 'Secs_60', 'Green');
+    fsm.addStateTransition('Green', 'Secs_90', 'Yellow');
+    fsm.addStateTransition('Yellow', 'Secs_10', 'Red');
+    fsm.addStateTransitionForAllStates('Secs_600', 'Damaged');
+    return fsm;
+};
+
+console.log('*** Running FSM with file token store');
+const fileTokenStore = new FileTokenStore(storeFile);
+const fsm = createTrafficLight(fileTokenStore);
+fsm.createTokenInstance('junction-1');
+fsm.createTokenInstance('junction-2');
+fsm.createTokenInstance('junction-3');
+fsm.updateTokenToNextState('junction-1', 'Secs_60');
+fsm.updateTokenToNextState('junction-2', 'Secs_60');
+fsm.updateTokenToNextState('junction-2', 'Secs_90');
+fsm.updateTokenToNextState('junction-3', 'Secs_600');
+// every change is written right away
+console.log(`pending flush: ${fileTokenStore.hasPendingFlush}`);
+assert.strictEqual(fileTokenStore.hasPendingFlush, false);
+console.log(fs.readFileSync(storeFile, 'utf8'));
+assert.strictEqual(Object.keys(JSON.parse(fs.readFileSync(storeFile, 'utf8'))).length, 3);
+
+console.log('\n*** Restarting FSM from file token store');
+const restartedTokenStore = new FileTokenStore(storeFile);
+const restarted = createTrafficLight(restartedTokenStore);
+console.log(`junction-1 ==> ${restarted.getTokenInstance('junction-1', false)}`);
+console.log(`junction-2 ==> ${restarted.getTokenInstance('junction-2', false)}`);
+console.log(`junction-3 ==> ${restarted.getTokenInstance('junction-3', false)}`);
+assert.strictEqual(restarted.getTokenInstance('junction-2', false)?.stateName, 'Yellow');
+assert.strictEqual(restarted.getTokenInstance('junction-3', false)?.stateName, 'Damaged');
+const pruned = restarted.pruneTokenInstances();
+console.log(`pruned ${pruned} token(s)`);
+assert.strictEqual(pruned, 1);
+
+console.log('\n*** Snapshot and restore tokens');
+const snapshot = JSON.stringify(restarted.snapshotTokens());
+console.log(snapshot);
+const restored = createTrafficLight();
+const restoredCount = restored.restoreTokens(snapshot);
+console.log(`restored ${restoredCount} token(s)`);
+assert.strictEqual(restoredCount, 2);
+const nextState = restored.updateTokenToNextState('junction-2', 'Secs_10');
+console.log(`junction-2 ==> ${nextState}`);
+assert.strictEqual(nextState?.stateName, 'Red');
+
+assert.throws(() => restored.restoreTokens({ version: 1, fsmName: 'trafficLight', tokens: { 'junction-9': { stateId: 42 } } }), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
+assert.throws(() => restored.restoreTokens(snapshot), (error: Error) => {
+    console.log(`${error}`);
+    return true;
+});
+
+console.log('\n*** Loading checks every record');
+fs.writeFileSync(storeFile, JSON.stringify({ 'junction-1': { states: { trafficLight: 'Red' } } }));
+assert.throws(() => new FileTokenStore(storeFile), (error: Error) => {
+    console.log(`${error.message.replace(storeFile, '<file>')}`);
+    return /invalid record for token junction-1/.test(error.message);
+});
+fs.unlinkSync(storeFile);
+
+console.log('\n*** Write errors');
+const unwritableFile = path.join(os.tmpdir(), `lib-fsm-missing-${process.pid}`, 'tokens.json');
+const unwritable = createTrafficLight(new FileTokenStore(unwritableFile));
+assert.throws(() => unwritable.createTokenInstance('junction-1'), (error: Error) => {
+    console.log(`written right away: ${(error as NodeJS.ErrnoException).code}`);
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+});
+
+// batched writes are opt-in, their errors are reported instead of thrown from the timer
+const batchedTokenStore = new FileTokenStore(unwritableFile, true, 5);
+const batched = createTrafficLight(batchedTokenStore);
+batchedTokenStore.onFlushError = error => console.log(`batched: ${(error as NodeJS.ErrnoException).code}`);
+batched.createTokenInstance('junction-1');
+batched.createTokenInstance('junction-2');
+assert.strictEqual(batchedTokenStore.hasPendingFlush, true);
+setTimeout(() => {
+    assert.strictEqual(batchedTokenStore.hasPendingFlush, false);
+    assert.strictEqual((batchedTokenStore.lastFlushError as NodeJS.ErrnoException).code, 'ENOENT');
+}, 20);
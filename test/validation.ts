@@ -0,0 +1,70 @@
+import assert from 'assert';
+import { FiniteStateMachine, FsmValidationReport } from "../src.ts";
+
+
+const printReport = (report: FsmValidationReport) => {
+    console.log(`${report.fsmName} valid: ${report.isValid}`);
+    console.log(`  unreachable: ${report.unreachableStates.join(', ')}`);
+    console.log(`  traps: ${report.trapStates.join(', ')}`);
+    console.log(`  unused events: ${report.unusedEvents.join(', ')}`);
+    console.log(`  unneeded non-deterministic: ${report.unneededNonDeterministicStates.join(', ')}`);
+    console.log(`  missing: ${report.missingTransitions.map(({ state, event }) => `${state.stateName}/${event.eventName}`).join(', ')}`);
+    report.errors.forEach(error => console.log(`  error: ${error}`));
+    console.log(`  warnings: ${report.warnings.length}`);
+};
+
+const fsm = FiniteStateMachine.createNewFiniteStateMachine('ticket');
+fsm.addState('Open');
+fsm.addState('InProgress');
+fsm.addState('Stuck');
+fsm.addState('Waiting');
+fsm.addState('Orphan').markNonDeterministic();
+fsm.addFinalState('Done');
+
+fsm.addEvent('start');
+fsm.addEvent('finish');
+fsm.addEvent('block');
+fsm.addEvent('escalate');
+
+fsm.addStateTransition('Open', 'start', 'InProgress');
+fsm.addStateTransition('InProgress', 'finish', 'Done');
+fsm.addStateTransition('InProgress', 'block', 'Stuck');
+// Stuck and Waiting only lead to each other
+fsm.addStateTransition('Stuck', 'escalate', 'Waiting');
+fsm.addStateTransition('Waiting', 'block', 'Stuck');
+fsm.addStateTransition('Orphan', 'start', 'Done');
+
+const stateNames = (states: Array<{ stateName: string }>) => states.map(state => state.stateName);
+
+console.log('*** A broken definition');
+const brokenReport = fsm.validate();
+printReport(brokenReport);
+assert.strictEqual(brokenReport.isValid, false);
+assert.deepStrictEqual(stateNames(brokenReport.unreachableStates), ['Orphan']);
+assert.deepStrictEqual(stateNames(brokenReport.trapStates), ['Stuck', 'Waiting']);
+assert.deepStrictEqual(stateNames(brokenReport.unneededNonDeterministicStates), ['Orphan']);
+assert.strictEqual(brokenReport.errors.length, 3);
+assert.strictEqual(brokenReport.warnings.length, 15);
+
+console.log('\n*** Throwing on errors');
+assert.throws(() => fsm.validate({ throwOnError: true }), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.startsWith('Invalid FSM ticket: unreachable state Orphan(4)');
+});
+
+console.log('\n*** Fixing the errors');
+fsm.addStateTransition('Stuck', 'start', 'InProgress');
+fsm.addStateTransition('Open', 'escalate', 'Orphan');
+// Orphan now needs its non-deterministic mark, start has two targets
+fsm.addStateTransition('Orphan', 'start', 'InProgress');
+const fixedReport = fsm.validate({ throwOnError: true });
+printReport(fixedReport);
+assert.strictEqual(fixedReport.isValid, true);
+assert.deepStrictEqual(fixedReport.errors, []);
+assert.strictEqual(fixedReport.missingTransitions.length, 12);
+
+console.log('\n*** Warnings as errors');
+assert.throws(() => fsm.validate({ throwOnError: true, warningsAsErrors: true }), (error: Error) => {
+    console.log(`${error}`);
+    return error.message.includes('no transition for Open(0:IS@ticket) ---[ finish(1) ]');
+});